@@ -1,21 +1,32 @@
-import { MessageSquare, Settings, LogOut, Activity, ChevronLeft, ChevronRight } from 'lucide-react';
+import { MessageSquare, Settings, LogOut, Activity, ChevronLeft, ChevronRight, Pin, Plus, HeartPulse, Tags } from 'lucide-react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useConversations } from '@/hooks/use-conversations';
+import { sortConversations } from '@/lib/conversations';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
+import LogoutDialog from '@/components/LogoutDialog';
+
+const RECENT_CONVERSATIONS_LIMIT = 8;
 
 const AppSidebar = () => {
-  const { user, logout } = useAuth();
+  const { user } = useAuth();
+  const { conversations } = useConversations();
   const location = useLocation();
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isLogoutOpen, setIsLogoutOpen] = useState(false);
+  const recentConversations = sortConversations(conversations).slice(0, RECENT_CONVERSATIONS_LIMIT);
 
   const navItems = [
-    { to: '/chat', icon: MessageSquare, label: 'Chat' },
+    { to: '/chat', icon: MessageSquare, label: 'Chat', matchNested: true },
     { to: '/pacs', icon: Settings, label: 'PACS Configuration' },
+    { to: '/pacs/health', icon: HeartPulse, label: 'PACS Health' },
+    { to: '/pacs/tags', icon: Tags, label: 'PACS Tags' },
   ];
 
-  const isActive = (path: string) => location.pathname === path;
+  const isActive = (path: string, matchNested = false) =>
+    location.pathname === path || (matchNested && location.pathname.startsWith(`${path}/`));
 
   return (
     <aside
@@ -42,27 +53,57 @@ const AppSidebar = () => {
       {/* Navigation */}
       <nav className="flex-1 p-3 space-y-1">
         {navItems.map((item) => (
-          <NavLink
-            key={item.to}
-            to={item.to}
-            className={cn(
-              "flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all duration-200 group",
-              isActive(item.to)
-                ? "bg-primary/10 text-primary"
-                : "text-muted-foreground hover:bg-sidebar-accent hover:text-foreground"
-            )}
-          >
-            <item.icon className={cn(
-              "w-5 h-5 flex-shrink-0 transition-transform duration-200",
-              isActive(item.to) && "scale-110"
-            )} />
-            {!isCollapsed && (
-              <span className="font-medium animate-fade-in">{item.label}</span>
-            )}
-            {isActive(item.to) && (
-              <div className="ml-auto w-1.5 h-1.5 rounded-full bg-primary" />
+          <div key={item.to}>
+            <NavLink
+              to={item.to}
+              end
+              className={cn(
+                "flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all duration-200 group",
+                isActive(item.to, item.matchNested)
+                  ? "bg-primary/10 text-primary"
+                  : "text-muted-foreground hover:bg-sidebar-accent hover:text-foreground"
+              )}
+            >
+              <item.icon className={cn(
+                "w-5 h-5 flex-shrink-0 transition-transform duration-200",
+                isActive(item.to, item.matchNested) && "scale-110"
+              )} />
+              {!isCollapsed && (
+                <span className="font-medium animate-fade-in">{item.label}</span>
+              )}
+              {isActive(item.to, item.matchNested) && (
+                <div className="ml-auto w-1.5 h-1.5 rounded-full bg-primary" />
+              )}
+            </NavLink>
+            {item.to === '/chat' && !isCollapsed && (
+              <div className="ml-5 mt-1 mb-2 pl-3 border-l border-sidebar-border space-y-0.5 animate-fade-in">
+                <NavLink
+                  to="/chat"
+                  end
+                  className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-muted-foreground hover:bg-sidebar-accent hover:text-foreground"
+                >
+                  <Plus className="w-3.5 h-3.5 flex-shrink-0" />
+                  <span>New chat</span>
+                </NavLink>
+                {recentConversations.map((conversation) => (
+                  <NavLink
+                    key={conversation.id}
+                    to={`/chat/${conversation.id}`}
+                    className={cn(
+                      "flex items-center gap-2 px-2 py-1.5 rounded-md text-xs transition-colors",
+                      location.pathname === `/chat/${conversation.id}`
+                        ? "bg-sidebar-accent text-foreground"
+                        : "text-muted-foreground hover:bg-sidebar-accent hover:text-foreground"
+                    )}
+                    title={conversation.title}
+                  >
+                    {conversation.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-primary" />}
+                    <span className="truncate">{conversation.title}</span>
+                  </NavLink>
+                ))}
+              </div>
             )}
-          </NavLink>
+          </div>
         ))}
       </nav>
 
@@ -98,7 +139,7 @@ const AppSidebar = () => {
         <Button
           variant="ghost"
           size="sm"
-          onClick={logout}
+          onClick={() => setIsLogoutOpen(true)}
           className={cn(
             "w-full mt-2 text-destructive hover:text-destructive hover:bg-destructive/10",
             isCollapsed ? "justify-center" : "justify-start"
@@ -108,6 +149,8 @@ const AppSidebar = () => {
           {!isCollapsed && <span className="ml-2">Logout</span>}
         </Button>
       </div>
+
+      <LogoutDialog open={isLogoutOpen} onOpenChange={setIsLogoutOpen} />
     </aside>
   );
 };
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ChatEvaluation } from '@/types';
+import { BarChart3, ChevronDown, Code } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface EvaluationPanelProps {
+  evaluation: ChatEvaluation;
+}
+
+interface Metric {
+  path: string;
+  label: string;
+  value: number;
+}
+
+const MAX_DEPTH = 4;
+
+const scoreChartConfig = {
+  value: {
+    label: 'Score',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const metricChartConfig = {
+  value: {
+    label: 'Value',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const humanize = (key: string): string => {
+  return key.replace(/[_-]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+};
+
+// Collects numeric leaves of the payload, labelled by their last key and
+// identified by their full dotted path.
+const collectMetrics = (value: unknown, path: string[] = [], metrics: Metric[] = []): Metric[] => {
+  if (typeof value === 'number' && Number.isFinite(value) && path.length > 0) {
+    metrics.push({ path: path.join('.'), label: humanize(path[path.length - 1]), value });
+  } else if (value && typeof value === 'object' && !Array.isArray(value) && path.length < MAX_DEPTH) {
+    Object.entries(value).forEach(([key, child]) => collectMetrics(child, [...path, key], metrics));
+  }
+  return metrics;
+};
+
+// Values in [0, 1] are treated as normalised scores and charted together.
+const isScore = (metric: Metric) => metric.value >= 0 && metric.value <= 1;
+
+const formatValue = (value: number): string => {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(3);
+};
+
+const EvaluationPanel = ({ evaluation }: EvaluationPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showRaw, setShowRaw] = useState(false);
+
+  const metrics = collectMetrics(evaluation);
+  const scores = metrics.filter(isScore);
+  const otherMetrics = metrics.filter(m => !isScore(m));
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-3 border-t border-border pt-2">
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground">
+        <BarChart3 className="w-3.5 h-3.5" />
+        Evaluation
+        {metrics.length > 0 && <span className="text-muted-foreground/70">({metrics.length} metrics)</span>}
+        <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', isOpen && 'rotate-180')} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 pt-3">
+        {scores.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-foreground">Scores</p>
+            <ChartContainer
+              config={scoreChartConfig}
+              className="aspect-auto w-full"
+              style={{ height: Math.max(80, scores.length * 28) }}
+            >
+              <BarChart data={scores} layout="vertical" margin={{ left: 8, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" domain={[0, 1]} tickLine={false} axisLine={false} fontSize={10} />
+                <YAxis type="category" dataKey="label" width={110} tickLine={false} axisLine={false} fontSize={10} />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel={false} />} />
+                <Bar dataKey="value" fill="var(--color-value)" radius={3} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        )}
+
+        {otherMetrics.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-foreground">Metrics</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {otherMetrics.map(metric => (
+                <div key={metric.path} className="rounded-md bg-muted/50 px-2.5 py-1.5" title={metric.path}>
+                  <p className="text-[11px] text-muted-foreground truncate">{metric.label}</p>
+                  <p className="text-sm font-medium text-foreground">{formatValue(metric.value)}</p>
+                </div>
+              ))}
+            </div>
+            {otherMetrics.length > 1 && (
+              <ChartContainer config={metricChartConfig} className="aspect-auto h-32 w-full">
+                <BarChart data={otherMetrics} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval={0} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={10} width={40} />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                  <Bar dataKey="value" fill="var(--color-value)" radius={3} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </div>
+        )}
+
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowRaw(!showRaw)}
+            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Code className="w-3.5 h-3.5" />
+            {showRaw ? 'Hide raw payload' : 'Show raw payload'}
+          </button>
+          {showRaw && (
+            <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-muted p-2 text-[11px] leading-relaxed">
+              {JSON.stringify(evaluation, null, 2)}
+            </pre>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default EvaluationPanel;
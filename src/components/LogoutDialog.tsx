@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { getLogoutWipeScope, setLogoutWipeScope } from '@/lib/conversations';
+import { ChatWipeScope } from '@/types';
+
+interface LogoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WIPE_OPTIONS: { value: ChatWipeScope; label: string; description: string }[] = [
+  {
+    value: 'none',
+    label: 'Keep my chat history',
+    description: 'Your conversations stay on this device for your next sign-in.',
+  },
+  {
+    value: 'user',
+    label: 'Remove my chat history',
+    description: 'Deletes your conversations from this device.',
+  },
+  {
+    value: 'all',
+    label: 'Remove all chat history on this device',
+    description: 'For shared workstations: deletes every user\'s conversations.',
+  },
+];
+
+const LogoutDialog = ({ open, onOpenChange }: LogoutDialogProps) => {
+  const { logout } = useAuth();
+  const [scope, setScope] = useState<ChatWipeScope>(getLogoutWipeScope);
+
+  useEffect(() => {
+    if (open) {
+      setScope(getLogoutWipeScope());
+    }
+  }, [open]);
+
+  const handleLogout = () => {
+    // The choice becomes the default for the next logout on this device.
+    setLogoutWipeScope(scope);
+    logout({ wipeChatHistory: scope });
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Log out</AlertDialogTitle>
+          <AlertDialogDescription>
+            Choose what happens to chat history stored in this browser.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as ChatWipeScope)} className="gap-3">
+          {WIPE_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`logout-wipe-${option.value}`} className="mt-0.5" />
+              <Label htmlFor={`logout-wipe-${option.value}`} className="space-y-1 font-normal cursor-pointer">
+                <span className="block font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleLogout}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Log out
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default LogoutDialog;
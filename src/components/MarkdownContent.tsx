@@ -0,0 +1,74 @@
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const SAFE_PROTOCOLS = /^(https?:|mailto:)/i;
+
+// Relative and fragment links are left alone; absolute URLs must use a safe
+// protocol. defaultUrlTransform already blanks javascript: and friends.
+const transformUrl = (url: string): string => {
+  const safe = defaultUrlTransform(url);
+  if (!safe) return '';
+  return /^[a-z][a-z0-9+.-]*:/i.test(safe) && !SAFE_PROTOCOLS.test(safe) ? '' : safe;
+};
+
+const components: Components = {
+  a: ({ node, href, children, ...props }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" {...props}>
+        {children}
+      </a>
+    ) : (
+      <span>{children}</span>
+    ),
+  table: ({ node, children, ...props }) => (
+    <div className="not-prose my-3 overflow-x-auto rounded-lg border border-border">
+      <table className="w-full text-xs" {...props}>
+        {children}
+      </table>
+    </div>
+  ),
+  thead: ({ node, ...props }) => <thead className="bg-muted/50" {...props} />,
+  th: ({ node, ...props }) => (
+    <th className="px-3 py-2 text-left font-medium text-foreground border-b border-border" {...props} />
+  ),
+  td: ({ node, ...props }) => (
+    <td className="px-3 py-2 align-top text-muted-foreground border-b border-border/50" {...props} />
+  ),
+};
+
+/**
+ * Renders agent output as GitHub-flavoured Markdown. Raw HTML in the source
+ * is dropped rather than rendered, and images are not loaded.
+ */
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  return (
+    <div
+      className={cn(
+        'prose prose-sm dark:prose-invert max-w-none break-words',
+        'prose-p:my-2 prose-headings:mb-2 prose-headings:mt-4 first:prose-headings:mt-0',
+        'prose-pre:bg-muted prose-pre:text-foreground prose-code:before:content-none prose-code:after:content-none',
+        'prose-a:text-primary',
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        skipHtml
+        disallowedElements={['img']}
+        unwrapDisallowed
+        urlTransform={transformUrl}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,65 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AUTH_SCHEMES } from '@/lib/pacsAuth';
+import { PACSAuthScheme } from '@/types';
+
+interface PACSAuthFieldsProps {
+  scheme: PACSAuthScheme;
+  values: Record<string, string>;
+  onSchemeChange: (scheme: PACSAuthScheme) => void;
+  onValuesChange: (values: Record<string, string>) => void;
+  // Secret keys that already have a saved value for the current scheme.
+  savedSecrets?: string[];
+  disabled?: boolean;
+}
+
+const PACSAuthFields = ({
+  scheme,
+  values,
+  onSchemeChange,
+  onValuesChange,
+  savedSecrets = [],
+  disabled,
+}: PACSAuthFieldsProps) => {
+  const fields = AUTH_SCHEMES.find(s => s.value === scheme)?.fields ?? [];
+
+  return (
+    <div className="space-y-3">
+      <Select value={scheme} onValueChange={(value) => onSchemeChange(value as PACSAuthScheme)} disabled={disabled}>
+        <SelectTrigger id="auth_scheme">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {AUTH_SCHEMES.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {fields.map(field => {
+        const isSaved = field.secret && savedSecrets.includes(field.key);
+        return (
+          <div key={field.key} className="space-y-1.5">
+            <Label htmlFor={`auth_${field.key}`} className="text-xs">
+              {field.label}
+              {field.optional ? ' (Optional)' : ' *'}
+            </Label>
+            <Input
+              id={`auth_${field.key}`}
+              type={field.secret ? 'password' : 'text'}
+              autoComplete={field.secret ? 'new-password' : 'off'}
+              placeholder={isSaved ? '•••••••• (saved, leave blank to keep)' : field.placeholder}
+              value={values[field.key] ?? ''}
+              onChange={(e) => onValuesChange({ ...values, [field.key]: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PACSAuthFields;
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PACSBatchAction, PACSBatchResult, runBatchAction } from '@/lib/pacsBatch';
+import { tagsOf } from '@/lib/pacsFilters';
+import { PACSConfiguration } from '@/types';
+import { CheckCircle2, Loader2, MinusCircle, XCircle } from 'lucide-react';
+
+export type PACSBatchKind = PACSBatchAction['kind'];
+
+interface PACSBatchDialogProps {
+  // The dialog is open while an action is set.
+  kind: PACSBatchKind | null;
+  // Snapshot of the selection taken when the dialog opened, so the report
+  // stays stable while the list reloads underneath it.
+  configs: PACSConfiguration[];
+  // Source tags for rename_tags, most used first.
+  renameFrom?: string[];
+  onOpenChange: (open: boolean) => void;
+  onFinished: (results: PACSBatchResult[], action: PACSBatchAction) => void;
+}
+
+const TITLES: Record<PACSBatchKind, string> = {
+  delete: 'Delete Configurations',
+  add_tags: 'Add Tags',
+  remove_tags: 'Remove Tags',
+  set_location: 'Set Location',
+  rename_tags: 'Rename Tag',
+};
+
+const NO_TAGS: string[] = [];
+
+const parseTags = (tags: string): string[] => {
+  return tags
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => t.length > 0);
+};
+
+const PACSBatchDialog = ({ kind, configs, renameFrom = NO_TAGS, onOpenChange, onFinished }: PACSBatchDialogProps) => {
+  const [tagInput, setTagInput] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [location, setLocation] = useState('');
+  const [renameTo, setRenameTo] = useState('');
+  const [results, setResults] = useState<Record<string, PACSBatchResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    if (kind) {
+      setTagInput('');
+      setTagsToRemove([]);
+      setLocation('');
+      setRenameTo(renameFrom[0] ?? '');
+      setResults({});
+    }
+  }, [kind, renameFrom]);
+
+  const buildAction = (): PACSBatchAction | null => {
+    switch (kind) {
+      case 'delete':
+        return { kind };
+      case 'add_tags':
+        return parseTags(tagInput).length > 0 ? { kind, tags: parseTags(tagInput) } : null;
+      case 'remove_tags':
+        return tagsToRemove.length > 0 ? { kind, tags: tagsToRemove } : null;
+      case 'set_location':
+        return { kind, location: location.trim() };
+      case 'rename_tags': {
+        const to = renameTo.trim();
+        const unchanged = renameFrom.length === 1 && renameFrom[0] === to;
+        return to && !unchanged ? { kind, from: renameFrom, to } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const action = buildAction();
+  const finishedCount = Object.keys(results).length;
+  const isDone = finishedCount > 0 && !isRunning;
+  const failedCount = Object.values(results).filter(r => !r.ok).length;
+
+  const handleRun = async () => {
+    if (!action) return;
+    setIsRunning(true);
+    const all = await runBatchAction(configs, action, result =>
+      setResults(prev => ({ ...prev, [result.config.id]: result }))
+    );
+    setIsRunning(false);
+    onFinished(all, action);
+  };
+
+  const renderResult = (config: PACSConfiguration) => {
+    const result = results[config.id];
+    if (!result) {
+      return isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" /> : null;
+    }
+    if (!result.ok) {
+      return (
+        <span className="flex items-center gap-1 text-xs text-destructive">
+          <XCircle className="w-3.5 h-3.5 shrink-0" />
+          {result.error}
+        </span>
+      );
+    }
+    if (result.unchanged) {
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MinusCircle className="w-3.5 h-3.5" />
+          Already up to date
+        </span>
+      );
+    }
+    return (
+      <span className="flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle2 className="w-3.5 h-3.5" />
+        {kind === 'delete' ? 'Deleted' : 'Updated'}
+      </span>
+    );
+  };
+
+  const availableTags = tagsOf(configs);
+
+  return (
+    <Dialog open={!!kind} onOpenChange={next => !isRunning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {kind === 'rename_tags' && renameFrom.length > 1 ? 'Merge Tags' : kind && TITLES[kind]}
+          </DialogTitle>
+          <DialogDescription>
+            {kind === 'delete'
+              ? `Permanently remove ${configs.length} PACS ${configs.length === 1 ? 'configuration' : 'configurations'}. This cannot be undone.`
+              : kind === 'rename_tags'
+              ? `Applies to ${configs.length} ${configs.length === 1 ? 'configuration' : 'configurations'} using ${renameFrom.length === 1 ? 'this tag' : 'these tags'}.`
+              : `Applies to ${configs.length} selected ${configs.length === 1 ? 'configuration' : 'configurations'}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-h-0 flex flex-col">
+          {kind === 'add_tags' && (
+            <div className="space-y-2">
+              <Label htmlFor="batch_tags">Tags (comma-separated)</Label>
+              <Input
+                id="batch_tags"
+                placeholder="e.g., radiology, ct-scan"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                disabled={isRunning || isDone}
+              />
+            </div>
+          )}
+          {kind === 'remove_tags' && (
+            <div className="space-y-2">
+              <Label>Tags to remove</Label>
+              {availableTags.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {availableTags.map(tag => (
+                    <Badge
+                      key={tag}
+                      variant={tagsToRemove.includes(tag) ? 'destructive' : 'secondary'}
+                      className="cursor-pointer text-xs"
+                      onClick={() =>
+                        !isRunning &&
+                        !isDone &&
+                        setTagsToRemove(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]))
+                      }
+                    >
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">The selected configurations have no tags.</p>
+              )}
+            </div>
+          )}
+          {kind === 'rename_tags' && (
+            <div className="space-y-2">
+              <Label htmlFor="batch_rename">
+                {renameFrom.length > 1 ? `Merge ${renameFrom.join(', ')} into` : `Rename "${renameFrom[0]}" to`}
+              </Label>
+              <Input
+                id="batch_rename"
+                value={renameTo}
+                onChange={(e) => setRenameTo(e.target.value)}
+                disabled={isRunning || isDone}
+              />
+            </div>
+          )}
+          {kind === 'set_location' && (
+            <div className="space-y-2">
+              <Label htmlFor="batch_location">Location</Label>
+              <Input
+                id="batch_location"
+                placeholder="Leave empty to clear the location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                disabled={isRunning || isDone}
+              />
+            </div>
+          )}
+
+          <div className="min-h-0 flex-1 overflow-auto rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Configuration</TableHead>
+                  <TableHead className="w-56">Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {configs.map(config => (
+                  <TableRow key={config.id}>
+                    <TableCell>
+                      <p className="font-medium">{config.display_name}</p>
+                      <p className="text-xs text-muted-foreground truncate max-w-[20rem]">{config.base_rs}</p>
+                    </TableCell>
+                    <TableCell>{renderResult(config)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {(isRunning || isDone) && (
+            <div className="space-y-1">
+              <Progress value={configs.length > 0 ? (finishedCount / configs.length) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {finishedCount} of {configs.length} processed
+                {failedCount > 0 && ` · ${failedCount} failed`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isRunning}>
+            {isDone ? 'Close' : 'Cancel'}
+          </Button>
+          {!isDone && (
+            <Button
+              type="button"
+              variant={kind === 'delete' ? 'destructive' : 'default'}
+              onClick={handleRun}
+              disabled={isRunning || !action || configs.length === 0}
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Working...
+                </>
+              ) : kind === 'delete' ? (
+                `Delete ${configs.length}`
+              ) : (
+                'Apply'
+              )}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PACSBatchDialog;
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { PACSBatchKind } from '@/components/PACSBatchDialog';
+import { MapPin, Tag, Tags, Trash2, X } from 'lucide-react';
+
+interface PACSBulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onAction: (kind: PACSBatchKind) => void;
+}
+
+const PACSBulkActionBar = ({ selectedCount, visibleCount, onSelectAll, onClear, onAction }: PACSBulkActionBarProps) => (
+  <div className="sticky top-0 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-card px-3 py-2 shadow-sm">
+    <span className="text-sm font-medium text-foreground">{selectedCount} selected</span>
+    {selectedCount < visibleCount && (
+      <Button variant="link" size="sm" className="h-8 px-1" onClick={onSelectAll}>
+        Select all {visibleCount} shown
+      </Button>
+    )}
+    <div className="ml-auto flex flex-wrap items-center gap-1">
+      <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction('add_tags')}>
+        <Tag className="w-4 h-4 mr-1.5" />
+        Add tags
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction('remove_tags')}>
+        <Tags className="w-4 h-4 mr-1.5" />
+        Remove tags
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction('set_location')}>
+        <MapPin className="w-4 h-4 mr-1.5" />
+        Set location
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+        onClick={() => onAction('delete')}
+      >
+        <Trash2 className="w-4 h-4 mr-1.5" />
+        Delete
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} title="Clear selection">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+export default PACSBulkActionBar;
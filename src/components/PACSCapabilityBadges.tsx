@@ -0,0 +1,94 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CAPABILITY_LABELS, isCapabilityStale } from '@/lib/capabilities';
+import { CapabilityProbeOptions } from '@/lib/dicomweb';
+import { CapabilitySupport, DicomwebCapability, PACSCapabilities } from '@/types';
+import { Loader2, RefreshCw, ScanSearch } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSCapabilityBadgesProps {
+  capabilities?: PACSCapabilities;
+  isProbing: boolean;
+  onProbe: (options?: CapabilityProbeOptions) => void;
+}
+
+const SUPPORT_CLASSES: Record<CapabilitySupport, string> = {
+  supported: 'border-primary/30 bg-primary/10 text-foreground',
+  unsupported: 'text-muted-foreground/70 line-through',
+  unknown: 'border-dashed text-muted-foreground',
+};
+
+const SUPPORT_LABELS: Record<CapabilitySupport, string> = {
+  supported: 'Supported',
+  unsupported: 'Not supported',
+  unknown: 'Could not be determined',
+};
+
+const PACSCapabilityBadges = ({ capabilities, isProbing, onProbe }: PACSCapabilityBadgesProps) => {
+  if (!capabilities) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <ScanSearch className="w-4 h-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Capabilities not checked</span>
+        <Button variant="link" size="sm" className="h-auto p-0 text-sm" onClick={() => onProbe()} disabled={isProbing}>
+          {isProbing ? 'Checking...' : 'Discover'}
+        </Button>
+      </div>
+    );
+  }
+
+  const stale = isCapabilityStale(capabilities);
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2 flex-wrap">
+        <ScanSearch className="w-4 h-4 text-muted-foreground" />
+        {(Object.keys(CAPABILITY_LABELS) as DicomwebCapability[]).map(capability => {
+          const support = capabilities.results[capability];
+          return (
+            <Badge
+              key={capability}
+              variant="outline"
+              className={cn('text-xs font-normal', SUPPORT_CLASSES[support])}
+              title={`${CAPABILITY_LABELS[capability]}: ${SUPPORT_LABELS[support]}`}
+            >
+              {CAPABILITY_LABELS[capability]}
+              {support === 'unknown' && '?'}
+            </Badge>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-1 pl-6 text-xs text-muted-foreground">
+        <span className={cn(stale && 'text-yellow-600')}>
+          Checked {formatDistanceToNow(capabilities.probedAt, { addSuffix: true })}
+          {capabilities.via === 'proxy' ? ' via backend' : ' from browser'}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onProbe()}
+          disabled={isProbing}
+          title="Check capabilities again"
+        >
+          {isProbing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+        </Button>
+        {capabilities.results.stow === 'unknown' && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => onProbe({ probeStow: true })}
+            disabled={isProbing}
+            title="Sends an empty STOW-RS upload to the server. Nothing is stored, but it is a write request."
+          >
+            Check STOW
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PACSCapabilityBadges;
@@ -0,0 +1,164 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import PACSConnectionStatus from '@/components/PACSConnectionStatus';
+import PACSStatusDot from '@/components/PACSStatusDot';
+import PACSCapabilityBadges from '@/components/PACSCapabilityBadges';
+import TagBadge from '@/components/TagBadge';
+import { useTagMeta } from '@/hooks/use-tag-meta';
+import { isOptimisticConfiguration } from '@/hooks/use-pacs-configurations';
+import { CapabilityProbeOptions } from '@/lib/dicomweb';
+import { describeAccess } from '@/lib/pacsAuth';
+import { getVendor } from '@/lib/pacsVendors';
+import { PACSCapabilities, PACSConfiguration, PACSConnectionTestResult, PACSHealthSample } from '@/types';
+import { Trash2, Server, MapPin, Tag, Globe, Loader2, Pencil, KeyRound, PlugZap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSConfigCardProps {
+  config: PACSConfiguration;
+  // Position in the list, used to stagger the entrance animation.
+  index: number;
+  health?: PACSHealthSample;
+  testResult?: PACSConnectionTestResult;
+  isTesting: boolean;
+  capabilities?: PACSCapabilities;
+  isProbing: boolean;
+  selected: boolean;
+  // Keeps checkboxes visible on every card while anything is selected.
+  selectionActive: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onTest: (config: PACSConfiguration) => void;
+  onProbe: (config: PACSConfiguration, options?: CapabilityProbeOptions) => void;
+  onEdit: (config: PACSConfiguration) => void;
+  onDelete: (config: PACSConfiguration) => void;
+}
+
+const PACSConfigCard = ({
+  config,
+  index,
+  health,
+  testResult,
+  isTesting,
+  capabilities,
+  isProbing,
+  selected,
+  selectionActive,
+  onSelectedChange,
+  onTest,
+  onProbe,
+  onEdit,
+  onDelete,
+}: PACSConfigCardProps) => {
+  const access = describeAccess(config);
+  const isSaving = isOptimisticConfiguration(config);
+  const { tagMeta } = useTagMeta();
+
+  return (
+    <Card
+      className={cn(
+        "group relative overflow-hidden border-border bg-card hover:border-primary/30 transition-all duration-300 animate-fade-in",
+        selected && "border-primary/60 hover:border-primary/60",
+        isSaving && "opacity-60"
+      )}
+      style={{ animationDelay: `${index * 100}ms` }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-primary/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              disabled={isSaving}
+              aria-label={`Select ${config.display_name}`}
+              className={cn(
+                "relative transition-opacity",
+                !selected && !selectionActive && "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              )}
+            />
+            <div className="relative w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Server className="w-5 h-5 text-primary" />
+              <PACSStatusDot sample={health} className="absolute -top-0.5 -right-0.5 ring-2 ring-card" />
+            </div>
+            <div>
+              <CardTitle className="text-base">{config.display_name}</CardTitle>
+              {(config.vendor || config.created_at) && (
+                <CardDescription className="text-xs">
+                  {[
+                    config.vendor && config.vendor !== 'generic' && getVendor(config.vendor).label,
+                    config.created_at && `Added ${new Date(config.created_at).toLocaleDateString()}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </CardDescription>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              onClick={() => onTest(config)}
+              disabled={isTesting || isSaving}
+              title="Test connection"
+            >
+              {isTesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              onClick={() => onEdit(config)}
+              disabled={isSaving}
+              title="Edit configuration"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => onDelete(config)}
+              disabled={isSaving}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Globe className="w-4 h-4 text-muted-foreground" />
+          <span className="text-muted-foreground truncate">{config.base_rs}</span>
+        </div>
+        {config.location && (
+          <div className="flex items-center gap-2 text-sm">
+            <MapPin className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">{config.location}</span>
+          </div>
+        )}
+        {access && (
+          <div className="flex items-center gap-2 text-sm">
+            <KeyRound className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">{access}</span>
+          </div>
+        )}
+        {config.tags && config.tags.length > 0 && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <Tag className="w-4 h-4 text-muted-foreground" />
+            {config.tags.map(tag => (
+              <TagBadge key={tag} tag={tag} meta={tagMeta[tag]} />
+            ))}
+          </div>
+        )}
+        {!isSaving && (
+          <PACSCapabilityBadges capabilities={capabilities} isProbing={isProbing} onProbe={options => onProbe(config, options)} />
+        )}
+        {testResult && <PACSConnectionStatus result={testResult} />}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PACSConfigCard;
@@ -0,0 +1,479 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import PACSHeadersEditor from '@/components/PACSHeadersEditor';
+import PACSAuthFields from '@/components/PACSAuthFields';
+import PACSConnectionStatus from '@/components/PACSConnectionStatus';
+import PACSTagInput from '@/components/PACSTagInput';
+import { pacsAPI } from '@/lib/api';
+import {
+  AUTH_SCHEMES,
+  HeaderRow,
+  authFormValues,
+  buildAuth,
+  buildHeaders,
+  getAuthScheme,
+  headerRowsFromRecord,
+  isSecretField,
+} from '@/lib/pacsAuth';
+import { PACS_VENDORS, getVendor, unfilledTemplateKey, validateVendorUrl } from '@/lib/pacsVendors';
+import { PACSAuthScheme, PACSConfiguration, PACSConnectionTestResult, PACSVendor } from '@/types';
+import { Loader2, PlugZap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCreatePacsConfiguration, useUpdatePacsConfiguration } from '@/hooks/use-pacs-configurations';
+import { ApiRequestError } from '@/lib/apiErrors';
+import { cn } from '@/lib/utils';
+
+interface PACSConfigDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this configuration instead of adding one.
+  config?: PACSConfiguration | null;
+  // Tags used elsewhere, offered while typing.
+  tagSuggestions?: string[];
+}
+
+interface PACSFormData {
+  vendor: PACSVendor;
+  display_name: string;
+  base_rs: string;
+  location: string;
+  tags: string[];
+  headers: HeaderRow[];
+  authScheme: PACSAuthScheme;
+  authValues: Record<string, string>;
+}
+
+const EMPTY_FORM: PACSFormData = {
+  vendor: 'generic',
+  display_name: '',
+  base_rs: '',
+  location: '',
+  tags: [],
+  headers: [],
+  authScheme: 'none',
+  authValues: {},
+};
+
+const toFormData = (config?: PACSConfiguration | null): PACSFormData => {
+  if (!config) return EMPTY_FORM;
+  return {
+    vendor: config.vendor ?? 'generic',
+    display_name: config.display_name,
+    base_rs: config.base_rs,
+    location: config.location ?? '',
+    tags: config.tags ?? [],
+    headers: headerRowsFromRecord(config.headers),
+    authScheme: getAuthScheme(config.auth),
+    authValues: authFormValues(config.auth),
+  };
+};
+
+const sameTags = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+};
+
+const sameRecord = (a?: Record<string, string> | null, b?: Record<string, string> | null): boolean => {
+  const entries = (r?: Record<string, string> | null) => JSON.stringify(Object.entries(r ?? {}).sort());
+  return entries(a) === entries(b);
+};
+
+// Whether the auth section differs from what the dialog opened with.
+const isAuthEdited = (config: PACSConfiguration, formData: PACSFormData): boolean => {
+  return (
+    formData.authScheme !== getAuthScheme(config.auth) ||
+    !sameRecord(
+      Object.fromEntries(Object.entries(formData.authValues).filter(([, value]) => value)),
+      Object.fromEntries(Object.entries(authFormValues(config.auth)).filter(([, value]) => value))
+    )
+  );
+};
+
+/**
+ * The auth record to save or test with. Until the auth section is edited the
+ * stored record is used as it is; records saved without a `type` show up as
+ * "None" in the form but still hold credentials.
+ */
+const draftAuth = (
+  config: PACSConfiguration | null | undefined,
+  formData: PACSFormData
+): { auth?: Record<string, string>; error?: string } => {
+  if (config && !isAuthEdited(config, formData)) return { auth: config.auth ?? undefined };
+  return buildAuth(formData.authScheme, formData.authValues, config?.auth);
+};
+
+// Only fields that differ from the stored configuration are sent in a PATCH.
+// Cleared headers or auth are sent as an empty record.
+const changedFields = (
+  config: PACSConfiguration,
+  formData: PACSFormData,
+  headers: Record<string, string> | undefined,
+  auth: Record<string, string> | undefined
+): Partial<PACSConfiguration> => {
+  const updates: Partial<PACSConfiguration> = {};
+  const displayName = formData.display_name.trim();
+  const baseRs = formData.base_rs.trim();
+  const location = formData.location.trim();
+  const tags = formData.tags;
+
+  if (formData.vendor !== (config.vendor ?? 'generic')) updates.vendor = formData.vendor;
+  if (displayName !== config.display_name) updates.display_name = displayName;
+  if (baseRs !== config.base_rs) updates.base_rs = baseRs;
+  if (location !== (config.location ?? '')) updates.location = location;
+  if (!sameTags(tags, config.tags ?? [])) updates.tags = tags;
+  if (!sameRecord(headers, config.headers)) updates.headers = headers ?? {};
+  if (!sameRecord(auth, config.auth)) updates.auth = auth ?? {};
+
+  return updates;
+};
+
+// True when the auth section still holds nothing the user entered: no
+// scheme, or the previous preset's scheme with only its default values.
+const isPristineAuth = (formData: PACSFormData, previous: ReturnType<typeof getVendor>): boolean => {
+  if (formData.authScheme === 'none') return true;
+  return (
+    formData.authScheme === previous.authScheme &&
+    Object.entries(formData.authValues).every(([key, value]) => !value || value === previous.authDefaults?.[key])
+  );
+};
+
+// Switching server type fills in the preset's URL template, default headers
+// and auth scheme, without overwriting anything the user has typed.
+const applyVendorPreset = (formData: PACSFormData, vendor: PACSVendor): PACSFormData => {
+  const previous = getVendor(formData.vendor);
+  const preset = getVendor(vendor);
+  const baseRs = formData.base_rs.trim();
+
+  const headers = formData.headers.filter(row => previous.defaultHeaders?.[row.name] !== row.value);
+  const names = new Set(headers.map(row => row.name.trim().toLowerCase()));
+  Object.entries(preset.defaultHeaders ?? {}).forEach(([name, value]) => {
+    if (!names.has(name.toLowerCase())) headers.push({ id: crypto.randomUUID(), name, value });
+  });
+
+  const resetAuth = isPristineAuth(formData, previous);
+  return {
+    ...formData,
+    vendor,
+    base_rs: !baseRs || baseRs === previous.urlTemplate ? preset.urlTemplate ?? '' : formData.base_rs,
+    headers,
+    authScheme: resetAuth ? preset.authScheme : formData.authScheme,
+    authValues: resetAuth ? { ...preset.authDefaults } : formData.authValues,
+  };
+};
+
+// Checks that need the whole draft; returns the first problem found.
+const validateDraft = (
+  formData: PACSFormData,
+  headers: Record<string, string> | undefined,
+  auth: Record<string, string> | undefined
+): string | null => {
+  const urlError = validateVendorUrl(formData.vendor, formData.base_rs);
+  if (urlError) return urlError;
+
+  const header = unfilledTemplateKey(headers);
+  if (header) return `Replace the placeholder in the "${header}" header`;
+
+  const authKey = unfilledTemplateKey(auth);
+  if (authKey) {
+    const label = AUTH_SCHEMES.find(s => s.value === formData.authScheme)?.fields.find(f => f.key === authKey)?.label;
+    return `Replace the placeholder in the ${label ?? authKey} field`;
+  }
+  return null;
+};
+
+const FieldMessage = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-destructive">{message}</p> : null;
+
+const PACSConfigDialog = ({ open, onOpenChange, config, tagSuggestions = [] }: PACSConfigDialogProps) => {
+  const [formData, setFormData] = useState<PACSFormData>(() => toFormData(config));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  // Server-side validation messages by field path, e.g. "base_rs".
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<PACSConnectionTestResult | null>(null);
+  const createConfiguration = useCreatePacsConfiguration();
+  const updateConfiguration = useUpdatePacsConfiguration();
+  const { toast } = useToast();
+  const isEditing = !!config;
+  const vendorPreset = getVendor(formData.vendor);
+  const savedSecrets =
+    config && getAuthScheme(config.auth) === formData.authScheme
+      ? Object.keys(config.auth ?? {}).filter(key => isSecretField(formData.authScheme, key) && !!config.auth?.[key])
+      : [];
+
+  useEffect(() => {
+    if (open) {
+      setFormData(toFormData(config));
+      setFormError(null);
+      setFieldErrors({});
+      setTestResult(null);
+    }
+  }, [open, config]);
+
+  // Messages for a field and anything nested in it, e.g. "auth.token".
+  const fieldError = (field: string): string | undefined => {
+    const messages = Object.entries(fieldErrors)
+      .filter(([path]) => path === field || path.startsWith(`${field}.`))
+      .map(([, message]) => message);
+    return messages.length > 0 ? messages.join('; ') : undefined;
+  };
+
+  // Probes what is in the form, including unsaved edits.
+  const handleTest = async () => {
+    if (!formData.base_rs.trim()) {
+      setFormError('Enter a DICOMweb RS Base URL to test.');
+      return;
+    }
+
+    const headersResult = buildHeaders(formData.headers, formData.authScheme);
+    const authResult = draftAuth(config, formData);
+    const validationError =
+      headersResult.error || authResult.error || validateDraft(formData, headersResult.headers, authResult.auth);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setFormError(null);
+    setIsTesting(true);
+    setTestResult(
+      await pacsAPI.testConnection({
+        base_rs: formData.base_rs.trim(),
+        headers: headersResult.headers,
+        auth: authResult.auth,
+      })
+    );
+    setIsTesting(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.display_name.trim() || !formData.base_rs.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Display Name and Base RS URL are required fields.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const headersResult = buildHeaders(formData.headers, formData.authScheme);
+    const authResult = draftAuth(config, formData);
+    const validationError =
+      headersResult.error || authResult.error || validateDraft(formData, headersResult.headers, authResult.auth);
+    if (validationError) {
+      setFormError(validationError);
+      toast({
+        title: 'Validation Error',
+        description: validationError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    let saved: PACSConfiguration;
+    setFormError(null);
+    setFieldErrors({});
+
+    try {
+      if (config) {
+        const updates = changedFields(config, formData, headersResult.headers, authResult.auth);
+        if (Object.keys(updates).length === 0) {
+          onOpenChange(false);
+          return;
+        }
+
+        setIsSubmitting(true);
+        saved = await updateConfiguration.mutateAsync({ id: config.id, updates });
+      } else {
+        setIsSubmitting(true);
+        saved = await createConfiguration.mutateAsync({
+          vendor: formData.vendor,
+          display_name: formData.display_name.trim(),
+          base_rs: formData.base_rs.trim(),
+          location: formData.location.trim() || undefined,
+          headers: headersResult.headers,
+          auth: authResult.auth,
+          tags: formData.tags,
+        });
+      }
+    } catch (error) {
+      const apiError = error instanceof ApiRequestError ? error.apiError : null;
+      const message = apiError?.message || 'Failed to save configuration';
+      if (apiError?.kind === 'validation') {
+        setFieldErrors(apiError.fieldErrors);
+      }
+      setIsSubmitting(false);
+      setFormError(message);
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(false);
+    onOpenChange(false);
+    toast({
+      title: isEditing ? 'Configuration Updated' : 'Configuration Added',
+      description: isEditing
+        ? `"${saved.display_name}" has been updated.`
+        : 'The PACS configuration has been saved successfully.',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit PACS Configuration' : 'Add PACS Configuration'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Update the details of this PACS server connection.'
+              : 'Enter the details for the new PACS server connection.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="vendor">Server Type</Label>
+            <Select
+              value={formData.vendor}
+              onValueChange={(value) => setFormData(applyVendorPreset(formData, value as PACSVendor))}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="vendor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PACS_VENDORS.map(vendor => (
+                  <SelectItem key={vendor.value} value={vendor.value}>
+                    {vendor.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="display_name">Display Name *</Label>
+            <Input
+              id="display_name"
+              placeholder="e.g., Hospital 1 – Mumbai PAC Server"
+              value={formData.display_name}
+              onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+              disabled={isSubmitting}
+              aria-invalid={!!fieldError('display_name')}
+              className={cn(fieldError('display_name') && 'border-destructive')}
+            />
+            <FieldMessage message={fieldError('display_name')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="base_rs">DICOMweb RS Base URL *</Label>
+            <Input
+              id="base_rs"
+              placeholder={vendorPreset.urlTemplate ?? 'e.g., http://host:port/dcm4chee-arc/aets/DCM/rs'}
+              value={formData.base_rs}
+              onChange={(e) => setFormData({ ...formData, base_rs: e.target.value })}
+              disabled={isSubmitting}
+              aria-invalid={!!fieldError('base_rs')}
+              className={cn(fieldError('base_rs') && 'border-destructive')}
+            />
+            <FieldMessage message={fieldError('base_rs')} />
+            {vendorPreset.urlHint && <p className="text-xs text-muted-foreground">{vendorPreset.urlHint}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="location">Location (Optional)</Label>
+            <Input
+              id="location"
+              placeholder="e.g., Mumbai or Hyderabad"
+              value={formData.location}
+              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+              disabled={isSubmitting}
+              aria-invalid={!!fieldError('location')}
+              className={cn(fieldError('location') && 'border-destructive')}
+            />
+            <FieldMessage message={fieldError('location')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (Optional)</Label>
+            <PACSTagInput
+              id="tags"
+              value={formData.tags}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+              suggestions={tagSuggestions}
+              disabled={isSubmitting}
+            />
+            <FieldMessage message={fieldError('tags')} />
+          </div>
+          <div className="space-y-2">
+            <Label>HTTP Headers (Optional)</Label>
+            <PACSHeadersEditor
+              rows={formData.headers}
+              onChange={(headers) => setFormData({ ...formData, headers })}
+              disabled={isSubmitting}
+            />
+            <FieldMessage message={fieldError('headers')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth_scheme">Authentication</Label>
+            <PACSAuthFields
+              scheme={formData.authScheme}
+              values={formData.authValues}
+              onSchemeChange={(authScheme) =>
+                setFormData({
+                  ...formData,
+                  authScheme,
+                  authValues: authScheme === getAuthScheme(config?.auth) ? authFormValues(config?.auth) : {},
+                })
+              }
+              onValuesChange={(authValues) => setFormData({ ...formData, authValues })}
+              savedSecrets={savedSecrets}
+              disabled={isSubmitting}
+            />
+            <FieldMessage message={fieldError('auth')} />
+          </div>
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+          {testResult && <PACSConnectionStatus result={testResult} />}
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="ghost"
+              className="mr-auto"
+              onClick={handleTest}
+              disabled={isSubmitting || isTesting}
+            >
+              {isTesting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PlugZap className="w-4 h-4 mr-2" />}
+              Test Connection
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : isEditing ? (
+                'Save Changes'
+              ) : (
+                'Save Configuration'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PACSConfigDialog;
@@ -0,0 +1,152 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PACSStatusDot from '@/components/PACSStatusDot';
+import TagBadge from '@/components/TagBadge';
+import { useTagMeta } from '@/hooks/use-tag-meta';
+import { isOptimisticConfiguration } from '@/hooks/use-pacs-configurations';
+import { describeAccess } from '@/lib/pacsAuth';
+import { PACSConfiguration, PACSHealthSample } from '@/types';
+import { Loader2, Pencil, PlugZap, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSConfigTableProps {
+  configs: PACSConfiguration[];
+  health: Record<string, PACSHealthSample>;
+  testingIds: string[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onTest: (config: PACSConfiguration) => void;
+  onEdit: (config: PACSConfiguration) => void;
+  onDelete: (config: PACSConfiguration) => void;
+}
+
+const PACSConfigTable = ({
+  configs,
+  health,
+  testingIds,
+  selectedIds,
+  onSelectionChange,
+  onTest,
+  onEdit,
+  onDelete,
+}: PACSConfigTableProps) => {
+  const ids = configs.filter(c => !isOptimisticConfiguration(c)).map(c => c.id);
+  const selectedHere = ids.filter(id => selectedIds.includes(id)).length;
+  const { tagMeta } = useTagMeta();
+
+  // The header checkbox only affects the rows in this table, leaving any
+  // selection in other groups alone.
+  const toggleAll = (checked: boolean) => {
+    onSelectionChange(
+      checked ? Array.from(new Set([...selectedIds, ...ids])) : selectedIds.filter(id => !ids.includes(id))
+    );
+  };
+
+  const toggleOne = (id: string, checked: boolean) => {
+    onSelectionChange(checked ? [...selectedIds, id] : selectedIds.filter(s => s !== id));
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8">
+              <Checkbox
+                checked={selectedHere === 0 ? false : selectedHere === ids.length ? true : 'indeterminate'}
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+                aria-label="Select all"
+              />
+            </TableHead>
+            <TableHead className="w-8" />
+            <TableHead>Name</TableHead>
+            <TableHead>Base RS URL</TableHead>
+            <TableHead>Location</TableHead>
+            <TableHead>Tags</TableHead>
+            <TableHead>Access</TableHead>
+            <TableHead>Added</TableHead>
+            <TableHead className="w-28" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {configs.map(config => {
+            const isTesting = testingIds.includes(config.id);
+            const isSaving = isOptimisticConfiguration(config);
+            return (
+              <TableRow
+                key={config.id}
+                className={cn('group', isSaving && 'opacity-60')}
+                data-state={selectedIds.includes(config.id) ? 'selected' : undefined}
+              >
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(config.id)}
+                    onCheckedChange={(checked) => toggleOne(config.id, checked === true)}
+                    disabled={isSaving}
+                    aria-label={`Select ${config.display_name}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <PACSStatusDot sample={health[config.id]} />
+                </TableCell>
+                <TableCell className="font-medium">{config.display_name}</TableCell>
+                <TableCell className="max-w-[16rem] truncate text-muted-foreground" title={config.base_rs}>
+                  {config.base_rs}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{config.location || '—'}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {(config.tags ?? []).map(tag => (
+                      <TagBadge key={tag} tag={tag} meta={tagMeta[tag]} />
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{describeAccess(config) ?? '—'}</TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {config.created_at ? new Date(config.created_at).toLocaleDateString() : '—'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                      onClick={() => onTest(config)}
+                      disabled={isTesting || isSaving}
+                      title="Test connection"
+                    >
+                      {isTesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                      onClick={() => onEdit(config)}
+                      disabled={isSaving}
+                      title="Edit configuration"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => onDelete(config)}
+                      disabled={isSaving}
+                      title="Delete configuration"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PACSConfigTable;
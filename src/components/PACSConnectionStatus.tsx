@@ -0,0 +1,49 @@
+import { PACSConnectionTestResult } from '@/types';
+import { CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSConnectionStatusProps {
+  result: PACSConnectionTestResult;
+  className?: string;
+}
+
+const PACSConnectionStatus = ({ result, className }: PACSConnectionStatusProps) => {
+  const ok = result.reachable && result.validDicomJson;
+  const Icon = ok ? CheckCircle2 : result.reachable ? AlertTriangle : XCircle;
+
+  const details = [
+    result.status !== undefined && `HTTP ${result.status}`,
+    result.latencyMs !== undefined && `${result.latencyMs} ms`,
+    result.corsBlocked && 'CORS blocked',
+    result.reachable && (result.validDicomJson ? 'DICOM JSON' : 'Not DICOM JSON'),
+    result.via === 'proxy' ? 'via backend' : 'from browser',
+  ].filter(Boolean);
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'flex items-start gap-2 rounded-md border px-3 py-2 text-xs',
+        ok
+          ? 'border-primary/30 bg-primary/5 text-foreground'
+          : result.reachable
+            ? 'border-yellow-500/30 bg-yellow-500/5 text-foreground'
+            : 'border-destructive/30 bg-destructive/5 text-foreground',
+        className
+      )}
+    >
+      <Icon
+        className={cn(
+          'w-4 h-4 flex-shrink-0 mt-0.5',
+          ok ? 'text-primary' : result.reachable ? 'text-yellow-500' : 'text-destructive'
+        )}
+      />
+      <div className="min-w-0">
+        <p className="font-medium">{result.message}</p>
+        <p className="text-muted-foreground">{details.join(' · ')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default PACSConnectionStatus;
@@ -0,0 +1,44 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+import { PACSConfiguration } from '@/types';
+
+interface PACSDeleteDialogProps {
+  // The configuration awaiting confirmation; the dialog is open while set.
+  config: PACSConfiguration | null;
+  onCancel: () => void;
+  onConfirm: (config: PACSConfiguration) => void;
+}
+
+const PACSDeleteDialog = ({ config, onCancel, onConfirm }: PACSDeleteDialogProps) => (
+  <AlertDialog open={!!config} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Delete "{config?.display_name}"?</AlertDialogTitle>
+        <AlertDialogDescription>
+          {config?.base_rs} will no longer be queried by anyone using this workspace. You can undo this for a few
+          seconds after deleting.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction
+          className={buttonVariants({ variant: 'destructive' })}
+          onClick={() => config && onConfirm(config)}
+        >
+          Delete
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default PACSDeleteDialog;
@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { HeaderRow } from '@/lib/pacsAuth';
+import { Plus, X } from 'lucide-react';
+
+interface PACSHeadersEditorProps {
+  rows: HeaderRow[];
+  onChange: (rows: HeaderRow[]) => void;
+  disabled?: boolean;
+}
+
+const PACSHeadersEditor = ({ rows, onChange, disabled }: PACSHeadersEditorProps) => {
+  const updateRow = (id: string, patch: Partial<HeaderRow>) => {
+    onChange(rows.map(row => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  const addRow = () => {
+    onChange([...rows, { id: crypto.randomUUID(), name: '', value: '' }]);
+  };
+
+  const removeRow = (id: string) => {
+    onChange(rows.filter(row => row.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.id} className="flex items-center gap-2">
+          <Input
+            placeholder="Header name"
+            value={row.name}
+            onChange={(e) => updateRow(row.id, { name: e.target.value })}
+            disabled={disabled}
+            className="flex-1"
+            aria-label="Header name"
+          />
+          <Input
+            placeholder="Value"
+            value={row.value}
+            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+            disabled={disabled}
+            className="flex-1"
+            aria-label="Header value"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 flex-shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={() => removeRow(row.id)}
+            disabled={disabled}
+            title="Remove header"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addRow} disabled={disabled}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Header
+      </Button>
+    </div>
+  );
+};
+
+export default PACSHeadersEditor;
@@ -0,0 +1,245 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { pacsAPI } from '@/lib/api';
+import { CSV_COLUMNS, PACSImportRow, parseImportFile } from '@/lib/pacsTransfer';
+import { PACSConfiguration } from '@/types';
+import { CheckCircle2, Loader2, Upload, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface PACSImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Used to flag rows whose base_rs is already configured.
+  existing: PACSConfiguration[];
+  onImported: () => void;
+}
+
+interface ImportOutcome {
+  created: boolean;
+  error?: string;
+}
+
+// Rows with errors or a duplicate base_rs are shown but never sent.
+const isImportable = (row: PACSImportRow) => !!row.input && !row.duplicateOf;
+
+const PACSImportDialog = ({ open, onOpenChange, existing, onImported }: PACSImportDialogProps) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<PACSImportRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<number, ImportOutcome>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setFileName('');
+      setRows([]);
+      setFileError(null);
+      setOutcomes({});
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setOutcomes({});
+    try {
+      const parsed = parseImportFile(file.name, await file.text(), existing);
+      setRows(parsed);
+      setFileError(parsed.length === 0 ? 'The file does not contain any configurations.' : null);
+    } catch (error) {
+      setRows([]);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file.');
+    }
+  };
+
+  const importable = rows.filter(isImportable);
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = rows.filter(row => row.duplicateOf && row.errors.length === 0).length;
+  const finishedCount = Object.keys(outcomes).length;
+  const isDone = finishedCount > 0 && !isImporting;
+
+  // Rows are created one at a time so progress and failures map to rows.
+  const handleImport = async () => {
+    setIsImporting(true);
+    let created = 0;
+
+    for (const row of importable) {
+      const result = await pacsAPI.createConfiguration(row.input);
+      if (result.config) created++;
+      setOutcomes(prev => ({
+        ...prev,
+        [row.row]: result.config
+          ? { created: true }
+          : { created: false, error: result.error.message },
+      }));
+    }
+
+    setIsImporting(false);
+    if (created > 0) onImported();
+
+    const failed = importable.length - created;
+    toast({
+      title: failed === 0 ? 'Import Complete' : 'Import Finished With Errors',
+      description: `${created} of ${importable.length} configurations created${failed > 0 ? `, ${failed} failed` : ''}.`,
+      variant: failed > 0 && created === 0 ? 'destructive' : 'default',
+    });
+  };
+
+  const renderStatus = (row: PACSImportRow) => {
+    const outcome = outcomes[row.row];
+    if (outcome?.created) {
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600">
+          <CheckCircle2 className="w-3.5 h-3.5" />
+          Created
+        </span>
+      );
+    }
+    if (outcome) {
+      return (
+        <span className="flex items-center gap-1 text-xs text-destructive">
+          <XCircle className="w-3.5 h-3.5 shrink-0" />
+          {outcome.error}
+        </span>
+      );
+    }
+    if (row.errors.length > 0) {
+      return (
+        <ul className="space-y-0.5 text-xs text-destructive">
+          {row.errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      );
+    }
+    if (row.duplicateOf) {
+      return (
+        <Badge variant="outline" className="text-xs font-normal text-yellow-600 border-yellow-500/30">
+          Duplicate of {row.duplicateOf}
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant="secondary" className="text-xs font-normal">
+        Ready
+      </Badge>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={next => !isImporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import PACS Configurations</DialogTitle>
+          <DialogDescription>
+            Upload a JSON array or a CSV file with the columns {CSV_COLUMNS.join(', ')}. In CSV files, separate tags
+            with semicolons and write headers and auth as JSON objects.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-h-0 flex flex-col">
+          <div className="flex items-center gap-2">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                if (fileInputRef.current) fileInputRef.current.value = '';
+                fileInputRef.current?.click();
+              }}
+              disabled={isImporting}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {fileName ? 'Choose Another File' : 'Choose File'}
+            </Button>
+            {fileName && <span className="text-sm text-muted-foreground truncate">{fileName}</span>}
+          </div>
+
+          {fileError && (
+            <p className="text-sm text-destructive" role="alert">
+              {fileError}
+            </p>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {importable.length} ready
+                {invalidCount > 0 && ` · ${invalidCount} with errors`}
+                {duplicateCount > 0 && ` · ${duplicateCount} duplicate${duplicateCount === 1 ? '' : 's'} skipped`}
+              </p>
+              <div className="min-h-0 flex-1 overflow-auto rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Display Name</TableHead>
+                      <TableHead>Base RS URL</TableHead>
+                      <TableHead className="w-64">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.displayName || '—'}</TableCell>
+                        <TableCell className="max-w-[14rem] truncate text-muted-foreground" title={row.baseRs}>
+                          {row.baseRs || '—'}
+                        </TableCell>
+                        <TableCell>{renderStatus(row)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          {(isImporting || isDone) && (
+            <div className="space-y-1">
+              <Progress value={importable.length > 0 ? (finishedCount / importable.length) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {finishedCount} of {importable.length} processed
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            {isDone ? 'Close' : 'Cancel'}
+          </Button>
+          {!isDone && (
+            <Button type="button" onClick={handleImport} disabled={isImporting || importable.length === 0}>
+              {isImporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                `Import ${importable.length} ${importable.length === 1 ? 'Configuration' : 'Configurations'}`
+              )}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PACSImportDialog;
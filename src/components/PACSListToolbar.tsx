@@ -0,0 +1,155 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import {
+  GROUP_OPTIONS,
+  PACSGroupKey,
+  PACSListFilters,
+  PACSSortKey,
+  SORT_OPTIONS,
+  hasActiveFilters,
+} from '@/lib/pacsFilters';
+import { Check, LayoutGrid, List, MapPin, Search, Tag, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSListToolbarProps {
+  filters: PACSListFilters;
+  onChange: (updates: Partial<PACSListFilters>) => void;
+  tags: string[];
+  locations: string[];
+}
+
+interface FacetFilterProps {
+  label: string;
+  icon: React.ElementType;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const toggle = (values: string[], value: string): string[] => {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+};
+
+const FacetFilter = ({ label, icon: Icon, options, selected, onChange }: FacetFilterProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline" size="sm" className="h-9 gap-1.5" disabled={options.length === 0}>
+        <Icon className="w-4 h-4" />
+        {label}
+        {selected.length > 0 && (
+          <Badge variant="secondary" className="ml-1 rounded-sm px-1 font-normal">
+            {selected.length}
+          </Badge>
+        )}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-56 p-0" align="start">
+      <Command>
+        <CommandInput placeholder={`Filter ${label.toLowerCase()}...`} />
+        <CommandList>
+          <CommandEmpty>No matches.</CommandEmpty>
+          <CommandGroup>
+            {options.map(option => {
+              const isSelected = selected.includes(option);
+              return (
+                <CommandItem key={option} value={option} onSelect={() => onChange(toggle(selected, option))} className="gap-2">
+                  <div
+                    className={cn(
+                      'flex h-4 w-4 items-center justify-center rounded-sm border border-primary',
+                      isSelected ? 'bg-primary text-primary-foreground' : 'opacity-50'
+                    )}
+                  >
+                    {isSelected && <Check className="h-3 w-3" />}
+                  </div>
+                  <span className="truncate">{option}</span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </PopoverContent>
+  </Popover>
+);
+
+const PACSListToolbar = ({ filters, onChange, tags, locations }: PACSListToolbarProps) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4">
+    <div className="relative flex-1 min-w-[12rem] max-w-sm">
+      <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        value={filters.q}
+        onChange={(e) => onChange({ q: e.target.value })}
+        placeholder="Search name or URL..."
+        className="h-9 pl-8"
+        aria-label="Search configurations"
+      />
+    </div>
+    <FacetFilter
+      label="Tags"
+      icon={Tag}
+      options={tags}
+      selected={filters.tags}
+      onChange={(selected) => onChange({ tags: selected })}
+    />
+    <FacetFilter
+      label="Locations"
+      icon={MapPin}
+      options={locations}
+      selected={filters.locations}
+      onChange={(selected) => onChange({ locations: selected })}
+    />
+    {hasActiveFilters(filters) && (
+      <Button variant="ghost" size="sm" className="h-9" onClick={() => onChange({ q: '', tags: [], locations: [] })}>
+        <X className="w-4 h-4 mr-1" />
+        Clear
+      </Button>
+    )}
+    <div className="ml-auto flex items-center gap-2">
+      <Select value={filters.sort} onValueChange={(value) => onChange({ sort: value as PACSSortKey })}>
+        <SelectTrigger className="h-9 w-36" aria-label="Sort configurations">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.group} onValueChange={(value) => onChange({ group: value as PACSGroupKey })}>
+        <SelectTrigger className="h-9 w-40" aria-label="Group configurations">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GROUP_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={filters.view}
+        onValueChange={(value) => value && onChange({ view: value as PACSListFilters['view'] })}
+      >
+        <ToggleGroupItem value="grid" aria-label="Grid view">
+          <LayoutGrid className="w-4 h-4" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="table" aria-label="Table view">
+          <List className="w-4 h-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+    </div>
+  </div>
+);
+
+export default PACSListToolbar;
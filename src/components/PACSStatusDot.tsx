@@ -0,0 +1,41 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { HEALTH_STATUS_LABELS } from '@/lib/healthStore';
+import { PACSHealthSample, PACSHealthStatus } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface PACSStatusDotProps {
+  sample?: PACSHealthSample;
+  className?: string;
+}
+
+const DOT_CLASSES: Record<PACSHealthStatus | 'unknown', string> = {
+  up: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  down: 'bg-destructive',
+  unknown: 'bg-muted-foreground/40',
+};
+
+const PACSStatusDot = ({ sample, className }: PACSStatusDotProps) => {
+  const status = sample?.status ?? 'unknown';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn('inline-block w-2.5 h-2.5 rounded-full flex-shrink-0', DOT_CLASSES[status], className)}
+          aria-label={HEALTH_STATUS_LABELS[status]}
+        />
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="font-medium">{HEALTH_STATUS_LABELS[status]}</p>
+        {sample && (
+          <p className="text-xs text-muted-foreground">
+            {sample.message} · {new Date(sample.testedAt).toLocaleTimeString()}
+          </p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default PACSStatusDot;
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import TagBadge from '@/components/TagBadge';
+import { useTagMeta } from '@/hooks/use-tag-meta';
+import { tagKey } from '@/lib/tags';
+import { Check, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PACSTagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already used by other configurations, offered as suggestions.
+  suggestions: string[];
+  disabled?: boolean;
+}
+
+const PACSTagInput = ({ id, value, onChange, suggestions, disabled }: PACSTagInputProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const { tagMeta } = useTagMeta();
+
+  const options = Array.from(new Set([...suggestions, ...value])).sort();
+  const typed = search.trim();
+  // Offer to create a tag only when no existing one differs just in case or
+  // punctuation; the near-match is listed instead.
+  const canCreate = !!typed && !options.some(tag => tagKey(tag) === tagKey(typed));
+
+  const toggle = (tag: string) => {
+    onChange(value.includes(tag) ? value.filter(t => t !== tag) : [...value, tag]);
+  };
+
+  const create = () => {
+    onChange([...value, typed]);
+    setSearch('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild disabled={disabled}>
+        <button
+          id={id}
+          type="button"
+          className={cn(
+            'flex min-h-10 w-full flex-wrap items-center gap-1 rounded-md border border-input bg-background px-3 py-2 text-left text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+            disabled && 'cursor-not-allowed opacity-50'
+          )}
+        >
+          {value.length === 0 && <span className="text-muted-foreground">e.g., radiology, ct-scan, mri</span>}
+          {value.map(tag => (
+            <TagBadge key={tag} tag={tag} meta={tagMeta[tag]} className="gap-1 pr-1">
+              <span
+                role="button"
+                tabIndex={-1}
+                aria-label={`Remove ${tag}`}
+                className="rounded-sm opacity-60 hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!disabled) toggle(tag);
+                }}
+              >
+                <X className="h-3 w-3" />
+              </span>
+            </TagBadge>
+          ))}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search or create a tag..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{typed ? 'No matching tags.' : 'No tags yet. Type to create one.'}</CommandEmpty>
+            {canCreate && (
+              <CommandGroup>
+                <CommandItem value={`create ${typed}`} onSelect={create} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Create "{typed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {options.length > 0 && (
+              <CommandGroup heading="Tags">
+                {options.map(tag => {
+                  const isSelected = value.includes(tag);
+                  return (
+                    <CommandItem
+                      key={tag}
+                      value={`${tag} ${tagMeta[tag]?.description ?? ''}`}
+                      onSelect={() => toggle(tag)}
+                      className="gap-2"
+                    >
+                      <div
+                        className={cn(
+                          'flex h-4 w-4 items-center justify-center rounded-sm border border-primary',
+                          isSelected ? 'bg-primary text-primary-foreground' : 'opacity-50'
+                        )}
+                      >
+                        {isSelected && <Check className="h-3 w-3" />}
+                      </div>
+                      <TagBadge tag={tag} meta={tagMeta[tag]} />
+                      {tagMeta[tag]?.description && (
+                        <span className="truncate text-xs text-muted-foreground">{tagMeta[tag].description}</span>
+                      )}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PACSTagInput;
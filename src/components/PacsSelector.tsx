@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { mayUseCapability } from '@/lib/capabilities';
+import { usePacsCapabilities } from '@/hooks/use-pacs-capabilities';
+import { PACSConfiguration } from '@/types';
+import { Check, MapPin, Server, Tag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PacsSelectorProps {
+  configs: PACSConfiguration[];
+  // An empty selection means every configured PACS is queried.
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+const toggle = (values: string[], value: string): string[] => {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+};
+
+const PacsSelector = ({ configs, selectedIds, onChange, disabled }: PacsSelectorProps) => {
+  const [open, setOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string[]>([]);
+  const { capabilities } = usePacsCapabilities();
+
+  const tags = useMemo(() => Array.from(new Set(configs.flatMap(c => c.tags ?? []))).sort(), [configs]);
+  const locations = useMemo(
+    () => Array.from(new Set(configs.map(c => c.location).filter((l): l is string => !!l))).sort(),
+    [configs]
+  );
+
+  // A config matches when it has any selected tag and any selected location.
+  const visible = configs.filter(
+    c =>
+      (tagFilter.length === 0 || (c.tags ?? []).some(t => tagFilter.includes(t))) &&
+      (locationFilter.length === 0 || (!!c.location && locationFilter.includes(c.location)))
+  );
+
+  const selectedCount = selectedIds.filter(id => configs.some(c => c.id === id)).length;
+  const label = selectedCount === 0 ? 'All PACS' : `${selectedCount} PACS`;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-10 gap-1.5"
+          disabled={disabled || configs.length === 0}
+          title="Choose which PACS servers to query"
+        >
+          <Server className="w-4 h-4" />
+          <span className="hidden sm:inline">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        {(tags.length > 0 || locations.length > 0) && (
+          <div className="space-y-2 border-b border-border p-3">
+            {tags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <Tag className="w-3.5 h-3.5 text-muted-foreground mr-1" />
+                {tags.map(tag => (
+                  <Badge
+                    key={tag}
+                    variant={tagFilter.includes(tag) ? 'default' : 'secondary'}
+                    className="cursor-pointer text-xs"
+                    onClick={() => setTagFilter(toggle(tagFilter, tag))}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {locations.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <MapPin className="w-3.5 h-3.5 text-muted-foreground mr-1" />
+                {locations.map(location => (
+                  <Badge
+                    key={location}
+                    variant={locationFilter.includes(location) ? 'default' : 'outline'}
+                    className="cursor-pointer text-xs"
+                    onClick={() => setLocationFilter(toggle(locationFilter, location))}
+                  >
+                    {location}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <Command>
+          <CommandInput placeholder="Search PACS..." />
+          <CommandList>
+            <CommandEmpty>No PACS match these filters.</CommandEmpty>
+            <CommandGroup>
+              {visible.map(config => {
+                const isSelected = selectedIds.includes(config.id);
+                return (
+                  <CommandItem
+                    key={config.id}
+                    value={`${config.display_name} ${config.base_rs} ${config.id}`}
+                    onSelect={() => onChange(toggle(selectedIds, config.id))}
+                    className="gap-2"
+                  >
+                    <div
+                      className={cn(
+                        'flex h-4 w-4 items-center justify-center rounded-sm border border-primary',
+                        isSelected ? 'bg-primary text-primary-foreground' : 'opacity-50'
+                      )}
+                    >
+                      {isSelected && <Check className="h-3 w-3" />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="truncate">{config.display_name}</p>
+                      {config.location && <p className="text-xs text-muted-foreground truncate">{config.location}</p>}
+                      {!mayUseCapability(capabilities[config.id], 'qido_studies') && (
+                        <p className="text-xs text-destructive">Study search (QIDO-RS) not supported</p>
+                      )}
+                    </div>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+          <CommandSeparator />
+          <div className="flex items-center justify-between p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(Array.from(new Set([...selectedIds, ...visible.map(c => c.id)])))}
+              disabled={visible.length === 0}
+            >
+              Select shown
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange([])} disabled={selectedIds.length === 0}>
+              Query all PACS
+            </Button>
+          </div>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PacsSelector;
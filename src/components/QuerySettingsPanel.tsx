@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { QUERY_LIMITS } from '@/lib/querySettings';
+import { ChatQuerySettings } from '@/types';
+import { Server } from 'lucide-react';
+
+interface QuerySettingsPanelProps {
+  settings: ChatQuerySettings;
+  onChange: (settings: ChatQuerySettings) => void;
+  // Whether the settings shown belong to the current conversation only.
+  isConversationOverride: boolean;
+  // Omitted when there is no conversation to attach an override to yet.
+  onConversationOverrideChange?: (enabled: boolean) => void;
+  pacsCount?: number;
+  disabled?: boolean;
+}
+
+interface LimitFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Keeps a local draft so the field can be cleared while typing; the value is
+// clamped and committed on blur or Enter.
+const LimitField = ({ id, label, value, min, max, disabled, onCommit }: LimitFieldProps) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    // Shown clamped even when that leaves the stored value unchanged.
+    const clamped = Math.min(max, Math.max(min, Math.round(parsed)));
+    setDraft(String(clamped));
+    onCommit(clamped);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        inputMode="numeric"
+        min={min}
+        max={max}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        disabled={disabled}
+        className="h-8"
+      />
+    </div>
+  );
+};
+
+const QuerySettingsPanel = ({
+  settings,
+  onChange,
+  isConversationOverride,
+  onConversationOverrideChange,
+  pacsCount,
+  disabled,
+}: QuerySettingsPanelProps) => {
+  const fanOut = pacsCount !== undefined ? pacsCount * settings.max_studies_per_pacs : undefined;
+
+  return (
+    <div className="rounded-lg border border-border bg-background p-3 space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <LimitField
+          id="max_studies_per_pacs"
+          label="Max studies per PACS"
+          value={settings.max_studies_per_pacs}
+          {...QUERY_LIMITS.max_studies_per_pacs}
+          disabled={disabled}
+          onCommit={(value) => onChange({ ...settings, max_studies_per_pacs: value })}
+        />
+        <LimitField
+          id="max_total_studies"
+          label="Max total studies"
+          value={settings.max_total_studies}
+          {...QUERY_LIMITS.max_total_studies}
+          disabled={disabled}
+          onCommit={(value) => onChange({ ...settings, max_total_studies: value })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="return_evaluation" className="text-xs">Return evaluation</Label>
+        <Switch
+          id="return_evaluation"
+          checked={settings.return_evaluation}
+          onCheckedChange={(checked) => onChange({ ...settings, return_evaluation: checked })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label htmlFor="conversation_override" className="text-xs">Only for this conversation</Label>
+          <p className="text-xs text-muted-foreground">
+            {isConversationOverride
+              ? 'Changes apply to this conversation only.'
+              : 'Changes update your defaults for all conversations.'}
+          </p>
+        </div>
+        <Switch
+          id="conversation_override"
+          checked={isConversationOverride}
+          onCheckedChange={onConversationOverrideChange}
+          disabled={disabled || !onConversationOverrideChange}
+        />
+      </div>
+
+      <div className="flex items-start gap-2 rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+        <Server className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+        {fanOut !== undefined ? (
+          <span>
+            Worst case: {pacsCount} PACS × {settings.max_studies_per_pacs} ={' '}
+            <span className="font-medium text-foreground">{fanOut} studies</span> fetched, up to{' '}
+            {Math.min(fanOut, settings.max_total_studies)} returned.
+          </span>
+        ) : (
+          <span>Fan-out estimate unavailable: PACS configurations could not be loaded.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuerySettingsPanel;
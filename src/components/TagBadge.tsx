@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import { TAG_COLORS } from '@/lib/tags';
+import { PACSTagMeta } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface TagBadgeProps {
+  tag: string;
+  meta?: PACSTagMeta;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// A PACS tag in its assigned colour, with the description as a tooltip.
+const TagBadge = ({ tag, meta, className, children }: TagBadgeProps) => (
+  <Badge
+    variant={meta?.color ? 'outline' : 'secondary'}
+    className={cn('text-xs', meta?.color && TAG_COLORS[meta.color].badge, className)}
+    title={meta?.description}
+  >
+    {tag}
+    {children}
+  </Badge>
+);
+
+export default TagBadge;
@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, AuthContextType } from '@/types';
-import { authAPI } from '@/lib/api';
+import { User, AuthContextType, ChatWipeScope } from '@/types';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { SESSION_EXPIRED_EVENT, authAPI } from '@/lib/api';
+import { loginPath } from '@/lib/loginRedirect';
+import { getLogoutWipeScope, migrateUnscopedConversations, wipeConversations } from '@/lib/conversations';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -8,11 +12,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     const storedToken = authAPI.getToken();
     const storedUser = authAPI.getCurrentUser();
-    
+
+    // Chat history saved before it was keyed by user belongs to whoever was
+    // signed in when it was written.
+    migrateUnscopedConversations(storedToken && storedUser ? storedUser.id : null);
+
     if (storedToken && storedUser) {
       setToken(storedToken);
       setUser(storedUser);
@@ -20,21 +31,38 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       authAPI.me().then(result => {
         if (result.user) {
           setUser(result.user);
-        } else {
-          // Token invalid, clear auth
+        } else if (result.error.kind === 'unauthorized') {
+          // Token invalid, clear auth. Other failures (offline, timeouts)
+          // keep the stored session.
           authAPI.logout();
+          queryClient.clear();
           setUser(null);
           setToken(null);
         }
       });
     }
     setIsLoading(false);
-  }, []);
+  }, [queryClient]);
+
+  // The API layer could not refresh an expired token. Chat history stays;
+  // after signing in again the user is returned to the page they were on.
+  useEffect(() => {
+    const handleExpired = () => {
+      if (!authAPI.getToken()) return;
+      authAPI.logout();
+      queryClient.clear();
+      setUser(null);
+      setToken(null);
+      navigate(loginPath(location), { replace: true });
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, [navigate, location, queryClient]);
 
   const login = async (username: string, password: string) => {
     const result = await authAPI.login(username, password);
     if (!result.token) {
-      return { success: false, error: result.error };
+      return { success: false, error: result.error.message };
     }
 
     setToken(result.token);
@@ -50,7 +78,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     authAPI.logout();
     setUser(null);
     setToken(null);
-    return { success: false, error: meResult.error || 'Failed to load user session' };
+    return { success: false, error: meResult.error?.message || 'Failed to load user session' };
   };
 
   const signup = async (username: string, password: string) => {
@@ -59,11 +87,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // After signup, automatically login
       return await login(username, password);
     }
-    return { success: false, error: result.error };
+    return { success: false, error: result.error.message };
   };
 
-  const logout = () => {
+  const logout = (options?: { wipeChatHistory?: ChatWipeScope }) => {
     authAPI.logout();
+    wipeConversations(options?.wipeChatHistory ?? getLogoutWipeScope(), user?.id ?? null);
+    // Cached server data (PACS configurations and their auth) belongs to
+    // this user; the next one to sign in on this tab must not see it.
+    queryClient.clear();
     setUser(null);
     setToken(null);
   };
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback, ReactNode } from 'react';
+import { ChatMessage, ChatQuerySettings, Conversation } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { ConversationsContext } from '@/hooks/use-conversations';
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  loadConversations,
+  saveConversations,
+  titleFromPrompt,
+} from '@/lib/conversations';
+import { normalizeQuerySettings } from '@/lib/querySettings';
+
+const NO_CONVERSATIONS: Conversation[] = [];
+const STREAMING_SAVE_DELAY_MS = 1000;
+
+export const ConversationsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  // Conversations are held together with the user they were loaded for, so a
+  // change of user can never write one person's history into another's key.
+  const [store, setStore] = useState<{ userId: string | null; conversations: Conversation[] }>(() => ({
+    userId,
+    conversations: userId ? loadConversations(userId) : NO_CONVERSATIONS,
+  }));
+
+  // Loaded while rendering rather than in an effect, so a deep link to
+  // /chat/:conversationId finds its conversation on the first render.
+  let current = store;
+  if (store.userId !== userId) {
+    current = { userId, conversations: userId ? loadConversations(userId) : NO_CONVERSATIONS };
+    setStore(current);
+  }
+  const conversations = current.conversations;
+
+  // Streaming replies change the store on every chunk; saving is held back
+  // until chunks stop arriving, normally when the reply settles.
+  useEffect(() => {
+    if (!store.userId) return;
+    const save = () => saveConversations(store.userId, store.conversations);
+    if (!store.conversations.some(c => c.messages.some(m => m.status === 'streaming'))) {
+      save();
+      return;
+    }
+    const id = window.setTimeout(save, STREAMING_SAVE_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [store]);
+
+  const setConversations = useCallback((update: (prev: Conversation[]) => Conversation[]) => {
+    setStore(prev => (prev.userId ? { ...prev, conversations: update(prev.conversations) } : prev));
+  }, []);
+
+  const patchConversation = useCallback(
+    (id: string, patch: (conversation: Conversation) => Conversation) => {
+      setConversations(prev => prev.map(c => (c.id === id ? patch(c) : c)));
+    },
+    [setConversations]
+  );
+
+  const getConversation = useCallback(
+    (id: string) => conversations.find(c => c.id === id),
+    [conversations]
+  );
+
+  const createConversation = useCallback((title?: string) => {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: crypto.randomUUID(),
+      title: title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      messages: [],
+      pinned: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setConversations(prev => [conversation, ...prev]);
+    return conversation;
+  }, [setConversations]);
+
+  const renameConversation = useCallback(
+    (id: string, title: string) => {
+      const trimmed = title.trim();
+      if (!trimmed) return;
+      patchConversation(id, c => ({ ...c, title: trimmed }));
+    },
+    [patchConversation]
+  );
+
+  const deleteConversation = useCallback(
+    (id: string) => {
+      setConversations(prev => prev.filter(c => c.id !== id));
+    },
+    [setConversations]
+  );
+
+  const togglePinned = useCallback(
+    (id: string) => {
+      patchConversation(id, c => ({ ...c, pinned: !c.pinned }));
+    },
+    [patchConversation]
+  );
+
+  const setServerConversationId = useCallback(
+    (id: string, serverConversationId: string) => {
+      patchConversation(id, c => ({ ...c, serverConversationId }));
+    },
+    [patchConversation]
+  );
+
+  const setConversationQuerySettings = useCallback(
+    (id: string, querySettings: ChatQuerySettings | undefined) => {
+      // Clamped to QUERY_LIMITS like the defaults, since these are sent as is.
+      const normalized = querySettings && normalizeQuerySettings(querySettings);
+      patchConversation(id, c => ({ ...c, querySettings: normalized }));
+    },
+    [patchConversation]
+  );
+
+  const updateMessages = useCallback(
+    (id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+      patchConversation(id, c => {
+        const messages = update(c.messages);
+        // Untitled threads take their title from the first prompt.
+        const firstUser = messages.find(m => m.role === 'user');
+        const title =
+          c.title === DEFAULT_CONVERSATION_TITLE && firstUser ? titleFromPrompt(firstUser.content) : c.title;
+        return { ...c, title, messages, updatedAt: Date.now() };
+      });
+    },
+    [patchConversation]
+  );
+
+  return (
+    <ConversationsContext.Provider
+      value={{
+        conversations,
+        getConversation,
+        createConversation,
+        renameConversation,
+        deleteConversation,
+        togglePinned,
+        setServerConversationId,
+        setConversationQuerySettings,
+        updateMessages,
+      }}
+    >
+      {children}
+    </ConversationsContext.Provider>
+  );
+};
@@ -0,0 +1,13 @@
+import * as React from "react";
+import { ConversationsContextType } from "@/types";
+
+// Provided by ConversationsProvider in src/contexts/ConversationsContext.tsx.
+export const ConversationsContext = React.createContext<ConversationsContextType | undefined>(undefined);
+
+export function useConversations() {
+  const context = React.useContext(ConversationsContext);
+  if (context === undefined) {
+    throw new Error("useConversations must be used within a ConversationsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,44 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { CAPABILITIES_UPDATED_EVENT, loadCapabilities, pruneCapabilities, saveCapabilities } from "@/lib/capabilities";
+import { PACSCapabilities } from "@/types";
+
+const NO_CAPABILITIES: Record<string, PACSCapabilities> = {};
+
+// The signed-in user's cached capability probes by PACS id, refreshed when a
+// probe is saved in this tab or another one.
+export function usePacsCapabilities() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [capabilities, setCapabilities] = React.useState<Record<string, PACSCapabilities>>(() =>
+    userId ? loadCapabilities(userId) : NO_CAPABILITIES,
+  );
+
+  React.useEffect(() => {
+    const reload = () => setCapabilities(userId ? loadCapabilities(userId) : NO_CAPABILITIES);
+    reload();
+    window.addEventListener(CAPABILITIES_UPDATED_EVENT, reload);
+    window.addEventListener("storage", reload);
+    return () => {
+      window.removeEventListener(CAPABILITIES_UPDATED_EVENT, reload);
+      window.removeEventListener("storage", reload);
+    };
+  }, [userId]);
+
+  const save = React.useCallback(
+    (next: PACSCapabilities) => {
+      if (userId) saveCapabilities(userId, next);
+    },
+    [userId],
+  );
+
+  // Drops cached probes for configurations that no longer exist.
+  const prune = React.useCallback(
+    (pacsIds: string[]) => {
+      if (userId) pruneCapabilities(userId, pacsIds);
+    },
+    [userId],
+  );
+
+  return { capabilities, saveCapabilities: save, pruneCapabilities: prune };
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { pacsAPI } from "@/lib/api";
+import { ApiRequestError } from "@/lib/apiErrors";
+import { PACSConfiguration, PACSConfigurationInput } from "@/types";
+
+// Every screen that lists PACS configurations reads this one cache entry, so
+// an edit on the PACS page shows up in the chat picker without a reload.
+export const PACS_CONFIGURATIONS_KEY = ["pacs", "configurations"] as const;
+
+// Placeholder ids for optimistic rows, replaced by the server copy on success.
+const OPTIMISTIC_ID_PREFIX = "optimistic-";
+
+// True for a row added optimistically that the server has not confirmed yet;
+// its id does not exist on the server, so nothing may be sent for it.
+export function isOptimisticConfiguration(config: PACSConfiguration) {
+  return config.id.startsWith(OPTIMISTIC_ID_PREFIX);
+}
+
+interface MutationContext {
+  previous?: PACSConfiguration[];
+}
+
+export function usePacsConfigurations() {
+  return useQuery<PACSConfiguration[], ApiRequestError>({
+    queryKey: PACS_CONFIGURATIONS_KEY,
+    queryFn: async () => {
+      const result = await pacsAPI.getConfigurations();
+      if (!result.configs) throw new ApiRequestError(result.error);
+      return result.configs;
+    },
+    staleTime: 30 * 1000,
+  });
+}
+
+// Shared by the mutations below: pause in-flight fetches so they cannot
+// overwrite the optimistic list, apply `update`, and keep the old list for
+// rollback.
+function useOptimisticUpdate() {
+  const queryClient = useQueryClient();
+
+  const apply = async (update: (configs: PACSConfiguration[]) => PACSConfiguration[]): Promise<MutationContext> => {
+    await queryClient.cancelQueries({ queryKey: PACS_CONFIGURATIONS_KEY });
+    const previous = queryClient.getQueryData<PACSConfiguration[]>(PACS_CONFIGURATIONS_KEY);
+    if (previous) {
+      queryClient.setQueryData<PACSConfiguration[]>(PACS_CONFIGURATIONS_KEY, update(previous));
+    }
+    return { previous };
+  };
+
+  const rollback = (context?: MutationContext) => {
+    if (context?.previous) {
+      queryClient.setQueryData(PACS_CONFIGURATIONS_KEY, context.previous);
+    }
+  };
+
+  const refetch = () => queryClient.invalidateQueries({ queryKey: PACS_CONFIGURATIONS_KEY });
+
+  return { queryClient, apply, rollback, refetch };
+}
+
+export function useCreatePacsConfiguration() {
+  const { queryClient, apply, rollback, refetch } = useOptimisticUpdate();
+
+  return useMutation<PACSConfiguration, ApiRequestError, PACSConfigurationInput, MutationContext & { tempId: string }>({
+    mutationFn: async input => {
+      const result = await pacsAPI.createConfiguration(input);
+      if (!result.config) throw new ApiRequestError(result.error);
+      return result.config;
+    },
+    onMutate: async input => {
+      const tempId = `${OPTIMISTIC_ID_PREFIX}${Date.now()}`;
+      const context = await apply(configs => [...configs, { ...input, id: tempId }]);
+      return { ...context, tempId };
+    },
+    onSuccess: (config, _input, context) => {
+      queryClient.setQueryData<PACSConfiguration[]>(PACS_CONFIGURATIONS_KEY, configs =>
+        configs?.map(c => (c.id === context?.tempId ? config : c))
+      );
+    },
+    onError: (_error, _input, context) => rollback(context),
+    onSettled: refetch,
+  });
+}
+
+export function useUpdatePacsConfiguration() {
+  const { queryClient, apply, rollback, refetch } = useOptimisticUpdate();
+
+  return useMutation<
+    PACSConfiguration,
+    ApiRequestError,
+    { id: string; updates: Partial<PACSConfiguration> },
+    MutationContext
+  >({
+    mutationFn: async ({ id, updates }) => {
+      const result = await pacsAPI.updateConfiguration(id, updates);
+      if (!result.config) throw new ApiRequestError(result.error);
+      return result.config;
+    },
+    onMutate: ({ id, updates }) => apply(configs => configs.map(c => (c.id === id ? { ...c, ...updates } : c))),
+    onSuccess: config => {
+      queryClient.setQueryData<PACSConfiguration[]>(PACS_CONFIGURATIONS_KEY, configs =>
+        configs?.map(c => (c.id === config.id ? config : c))
+      );
+    },
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: refetch,
+  });
+}
+
+export function useDeletePacsConfiguration() {
+  const { apply, rollback, refetch } = useOptimisticUpdate();
+
+  return useMutation<void, ApiRequestError, string, MutationContext>({
+    mutationFn: async id => {
+      const result = await pacsAPI.deleteConfiguration(id);
+      if (!result.success) throw new ApiRequestError(result.error);
+    },
+    onMutate: id => apply(configs => configs.filter(c => c.id !== id)),
+    onError: (_error, _id, context) => rollback(context),
+    onSettled: refetch,
+  });
+}
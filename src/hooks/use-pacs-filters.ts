@@ -0,0 +1,22 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+import { PACSListFilters, filtersFromSearchParams, filtersToSearchParams } from "@/lib/pacsFilters";
+
+// PACS list filters backed by the URL query string. Updates replace the
+// current history entry so typing a search does not flood the back button.
+export function usePacsFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = React.useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+
+  const updateFilters = React.useCallback(
+    (updates: Partial<PACSListFilters>) => {
+      setSearchParams(
+        (current) => filtersToSearchParams({ ...filtersFromSearchParams(current), ...updates }),
+        { replace: true },
+      );
+    },
+    [setSearchParams],
+  );
+
+  return { filters, updateFilters };
+}
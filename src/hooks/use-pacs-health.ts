@@ -0,0 +1,73 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { HEALTH_UPDATED_EVENT, HealthCheck, getHealthHistory, getLatestHealth, recordHealthChecks } from "@/lib/healthStore";
+import { PACSHealthSample } from "@/types";
+
+// Re-runs `read` for the signed-in user now and whenever a round of checks is
+// recorded anywhere in the app.
+function useHealthStore<T>(initial: T, read: (userId: string) => Promise<T>) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [value, setValue] = React.useState<T>(initial);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    if (!userId) {
+      setValue(initial);
+      return;
+    }
+
+    const load = () => {
+      read(userId)
+        .then(next => {
+          if (!cancelled) setValue(next);
+        })
+        .catch(() => {
+          // IndexedDB unavailable (private mode, blocked storage): no history.
+        });
+    };
+
+    load();
+    window.addEventListener(HEALTH_UPDATED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(HEALTH_UPDATED_EVENT, load);
+    };
+  }, [userId, initial, read]);
+
+  return value;
+}
+
+const NO_SAMPLES: PACSHealthSample[] = [];
+const NO_LATEST: Record<string, PACSHealthSample> = {};
+
+// Health samples recorded within the last `windowMs`.
+export function usePacsHealthHistory(windowMs: number) {
+  const read = React.useCallback((userId: string) => getHealthHistory(userId, Date.now() - windowMs), [windowMs]);
+  return useHealthStore(NO_SAMPLES, read);
+}
+
+// The newest sample of each of the given PACS, for status dots.
+export function usePacsLatestHealth(pacsIds: string[]) {
+  const idsKey = pacsIds.join("\n");
+  const read = React.useCallback(
+    (userId: string) => getLatestHealth(userId, idsKey ? idsKey.split("\n") : []),
+    [idsKey],
+  );
+  return useHealthStore(NO_LATEST, read);
+}
+
+// Records a round of checks for the signed-in user. Failures to store a
+// sample are ignored; the check result itself is still shown.
+export function useRecordHealthChecks() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  return React.useCallback(
+    async (checks: HealthCheck[]) => {
+      if (!userId) return;
+      await recordHealthChecks(userId, checks).catch(() => undefined);
+    },
+    [userId],
+  );
+}
@@ -0,0 +1,30 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_QUERY_SETTINGS, loadQuerySettings, normalizeQuerySettings, saveQuerySettings } from "@/lib/querySettings";
+import { ChatQuerySettings } from "@/types";
+
+// The signed-in user's default chat query settings, persisted per user.
+export function useQuerySettings() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [settings, setSettings] = React.useState<ChatQuerySettings>(() =>
+    userId ? loadQuerySettings(userId) : DEFAULT_QUERY_SETTINGS,
+  );
+
+  React.useEffect(() => {
+    setSettings(userId ? loadQuerySettings(userId) : DEFAULT_QUERY_SETTINGS);
+  }, [userId]);
+
+  const updateSettings = React.useCallback(
+    (next: ChatQuerySettings) => {
+      const normalized = normalizeQuerySettings(next);
+      setSettings(normalized);
+      if (userId) {
+        saveQuerySettings(userId, normalized);
+      }
+    },
+    [userId],
+  );
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,43 @@
+import * as React from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { TAG_META_UPDATED_EVENT, loadTagMeta, renameTagMeta, saveTagMeta } from "@/lib/tags";
+import { PACSTagMeta } from "@/types";
+
+const NO_TAG_META: Record<string, PACSTagMeta> = {};
+
+// The signed-in user's tag colours and descriptions, refreshed when they
+// change in this tab or another one.
+export function useTagMeta() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [tagMeta, setTagMeta] = React.useState<Record<string, PACSTagMeta>>(() =>
+    userId ? loadTagMeta(userId) : NO_TAG_META,
+  );
+
+  React.useEffect(() => {
+    const reload = () => setTagMeta(userId ? loadTagMeta(userId) : NO_TAG_META);
+    reload();
+    window.addEventListener(TAG_META_UPDATED_EVENT, reload);
+    window.addEventListener("storage", reload);
+    return () => {
+      window.removeEventListener(TAG_META_UPDATED_EVENT, reload);
+      window.removeEventListener("storage", reload);
+    };
+  }, [userId]);
+
+  const save = React.useCallback(
+    (tag: string, meta: PACSTagMeta) => {
+      if (userId) saveTagMeta(userId, tag, meta);
+    },
+    [userId],
+  );
+
+  const rename = React.useCallback(
+    (from: string[], to: string) => {
+      if (userId) renameTagMeta(userId, from, to);
+    },
+    [userId],
+  );
+
+  return { tagMeta, saveTagMeta: save, renameTagMeta: rename };
+}
@@ -1,15 +1,57 @@
-import { User, PACSConfiguration, ApiResponse, ChatRequest } from '@/types';
+import {
+  User,
+  PACSConfiguration,
+  PACSConfigurationInput,
+  ApiResponse,
+  ChatRequest,
+  ChatEvaluation,
+  PACSConnectionTarget,
+  PACSConnectionTestResult,
+  PACSCapabilities,
+  DicomwebCapability,
+  CapabilitySupport,
+  ApiError,
+} from '@/types';
+import { z } from 'zod';
+import { CapabilityProbeOptions, probeCapabilitiesDirect, probeQidoDirect } from '@/lib/dicomweb';
+import {
+  ChatResponseData,
+  ChatStreamEvent,
+  SchemaMismatchError,
+  chatResponseSchema,
+  chatStreamEventSchema,
+  pacsCapabilitiesSchema,
+  pacsConfigurationListSchema,
+  pacsConfigurationSchema,
+  pacsTestResultSchema,
+  parseApiResponse,
+  parseWith,
+  tokenSchema,
+  userSchema,
+} from '@/lib/apiSchemas';
+import { ApiRequestError, apiErrorFromMismatch, apiErrorFromResponse, toApiError } from '@/lib/apiErrors';
+import { IDEMPOTENCY_KEY_HEADER, fetchWithRetry } from '@/lib/retry';
 
 const API_BASE_URL = (import.meta.env.VITE_API_URL || 'http://localhost:8000').replace(/\/+$/, '');
 const DEFAULT_TIMEOUT_MS = 20000;
+// A streamed reply that sends nothing for this long is given up on.
+const STREAM_IDLE_TIMEOUT_MS = 60000;
+
+const TOKEN_KEY = 'auth_token';
+// Only set when the backend issues refresh tokens at login.
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Fired when a 401 could not be fixed by refreshing the token; AuthContext
+// signs the user out and sends them to the login page.
+export const SESSION_EXPIRED_EVENT = 'medchat:session-expired';
 
 const getToken = (): string | null => {
-  return localStorage.getItem('auth_token');
+  return localStorage.getItem(TOKEN_KEY);
 };
 
-const authHeaders = (): HeadersInit => {
+const authHeaders = (): Record<string, string> => {
   const token = getToken();
-  const headers: HeadersInit = {
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
   if (token) {
@@ -18,10 +60,6 @@ const authHeaders = (): HeadersInit => {
   return headers;
 };
 
-const isAbortError = (error: unknown): boolean => {
-  return typeof error === 'object' && error !== null && 'name' in error && (error as { name: string }).name === 'AbortError';
-};
-
 const fetchWithTimeout = async (
   input: RequestInfo | URL,
   init: RequestInit,
@@ -30,6 +68,17 @@ const fetchWithTimeout = async (
   const controller = new AbortController();
   const id = window.setTimeout(() => controller.abort(), timeoutMs);
 
+  // Forward a caller-supplied signal so the request can be cancelled
+  // independently of the timeout. Streamed bodies watch the signal
+  // themselves (see readChatStream).
+  const external = init.signal;
+  const onAbort = () => controller.abort();
+  if (external?.aborted) {
+    controller.abort();
+  } else {
+    external?.addEventListener('abort', onAbort, { once: true });
+  }
+
   try {
     return await fetch(input, {
       ...init,
@@ -37,9 +86,16 @@ const fetchWithTimeout = async (
     });
   } finally {
     window.clearTimeout(id);
+    external?.removeEventListener('abort', onAbort);
   }
 };
 
+// fetchWithTimeout under the retry policy for this method and endpoint. Each
+// attempt gets its own timeout.
+const sendRequest = (path: string, init: RequestInit): Promise<Response> => {
+  return fetchWithRetry(path, init, () => fetchWithTimeout(buildUrl(path), init));
+};
+
 const safeReadJson = async (response: Response): Promise<unknown> => {
   const text = await response.text();
   if (!text) return null;
@@ -62,111 +118,365 @@ const buildUrl = (path: string): string => {
   return `${API_BASE_URL}${path.startsWith('/') ? path : `/${path}`}`;
 };
 
+/**
+ * Resolves with the envelope's data. Failures throw an ApiRequestError; a
+ * success payload that does not match `dataSchema` is a schema mismatch,
+ * while an unreadable error payload keeps its HTTP status.
+ */
+const readApiResponse = async <T>(response: Response, dataSchema: z.ZodTypeAny, fallback: string): Promise<T> => {
+  let result: ApiResponse<T>;
+  try {
+    result = parseApiResponse<T>(await safeReadJson(response), dataSchema);
+  } catch (error) {
+    if (!(error instanceof SchemaMismatchError)) throw error;
+    throw new ApiRequestError(
+      response.ok ? apiErrorFromMismatch(response, error) : apiErrorFromResponse(response, { status: 'error' }, fallback)
+    );
+  }
+
+  if (result.status === 'success') return result.data;
+  throw new ApiRequestError(apiErrorFromResponse(response, result, fallback));
+};
+
+// Backends without a proxy endpoint for PACS probes answer 404 or 405; the
+// probe then runs from the browser instead.
+const isMissingEndpoint = (response: Response): boolean => response.status === 404 || response.status === 405;
+
+// Cleared once the backend answers /auth/refresh with 404 or 405.
+let refreshSupported = true;
+let refreshInFlight: Promise<string | null> | null = null;
+
+// Exchanges the stored refresh token for a new access token. Requests that
+// hit a 401 at the same time share one exchange. Resolves null on failure.
+const refreshAccessToken = (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken || !refreshSupported) return Promise.resolve(null);
+
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await sendRequest('/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: refreshToken }),
+        });
+        if (response.status === 404 || response.status === 405) {
+          refreshSupported = false;
+          return null;
+        }
+
+        const data = await readApiResponse<{ access_token: string; refresh_token?: string }>(
+          response,
+          tokenSchema,
+          'Session expired'
+        );
+        localStorage.setItem(TOKEN_KEY, data.access_token);
+        if (data.refresh_token) {
+          localStorage.setItem(REFRESH_TOKEN_KEY, data.refresh_token);
+        }
+        return data.access_token;
+      } catch {
+        return null;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+};
+
+/**
+ * sendRequest for calls made with the user's token. A 401 is answered by
+ * refreshing the token and replaying the request once; when that does not
+ * help, the session is reported as expired and the 401 is returned.
+ */
+const sendAuthorizedRequest = async (path: string, init: RequestInit): Promise<Response> => {
+  const response = await sendRequest(path, init);
+  const headers = new Headers(init.headers);
+  const sentAuth = headers.get('Authorization');
+  if (response.status !== 401 || !sentAuth) return response;
+
+  // Another request may already have refreshed the token.
+  const current = getToken();
+  const token = current && `Bearer ${current}` !== sentAuth ? current : await refreshAccessToken();
+  if (!token) {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    return response;
+  }
+
+  response.body?.cancel().catch(() => undefined);
+  headers.set('Authorization', `Bearer ${token}`);
+  const replayed = await sendRequest(path, { ...init, headers });
+  if (replayed.status === 401) {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  }
+  return replayed;
+};
+
 const requestApi = async <T>(
   path: string,
-  init: RequestInit
-): Promise<unknown> => {
-  const response = await fetchWithTimeout(buildUrl(path), init);
-  return safeReadJson(response);
+  init: RequestInit,
+  dataSchema: z.ZodTypeAny,
+  fallback: string
+): Promise<T> => {
+  const response = await sendAuthorizedRequest(path, init);
+  return readApiResponse<T>(response, dataSchema, fallback);
+};
+
+const CHAT_STREAM_ACCEPT = 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8';
+
+export interface ChatSendOptions {
+  // Called with each text delta when the server streams its reply.
+  onChunk?: (delta: string) => void;
+  // Aborting this signal cancels the request; the result is { cancelled: true }.
+  signal?: AbortSignal;
+  // Lets the backend recognise a re-sent message, which makes the request
+  // safe to retry after a dropped connection. Without it, it is sent once.
+  idempotencyKey?: string;
+}
+
+export interface ChatSendResult {
+  response?: string;
+  // Server-side conversation id, when the backend keeps its own thread state.
+  conversationId?: string;
+  evaluation?: ChatEvaluation;
+  error?: ApiError;
+  cancelled?: boolean;
+}
+
+// Everything the agent returns besides the reply itself (evaluation scores,
+// debug traces, timings) is kept so it can be shown with the message.
+const extractEvaluation = (data: Partial<ChatResponseData> | null | undefined): ChatEvaluation | undefined => {
+  if (!data || typeof data !== 'object') return undefined;
+  const { response, conversation_id, ...rest } = data;
+  return Object.keys(rest).length > 0 ? rest : undefined;
 };
 
-// Helper to extract error message from API response
-const getErrorMessage = (payload: unknown): string => {
-  const p = payload as any;
+const isStreamingResponse = (response: Response): boolean => {
+  const contentType = response.headers.get('content-type') || '';
+  return (
+    !!response.body &&
+    (contentType.includes('text/event-stream') || contentType.includes('application/x-ndjson'))
+  );
+};
+
+// Reads an SSE or NDJSON body from /agent/chat. Each event is either a JSON
+// object ({ delta }, { response }, { type: 'done' } or an error envelope) or
+// raw text, which is treated as a delta. Stops reading when `signal` aborts
+// or the server goes quiet for STREAM_IDLE_TIMEOUT_MS.
+const readChatStream = async (
+  response: Response,
+  onChunk: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<ChatSendResult> => {
+  const isSse = (response.headers.get('content-type') || '').includes('text/event-stream');
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+  let accumulated = '';
+  let finalResponse: string | undefined;
+  let conversationId: string | undefined;
+  let evaluation: ChatEvaluation | undefined;
+  let error: ApiError | undefined;
+  let done = false;
+  let stalled = false;
+
+  const handleEvent = (raw: string) => {
+    if (!raw.trim()) return;
+    if (raw.trim() === '[DONE]') {
+      done = true;
+      return;
+    }
 
-  // Our ApiResponse error format
-  if (Array.isArray(p?.error?.details)) {
-    const msgs = p.error.details
-      .map((d: any) => d?.msg)
-      .filter(Boolean);
-    return msgs.join(', ') || p?.message || 'An error occurred';
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = raw;
+    }
+
+    if (typeof parsed === 'string') {
+      accumulated += parsed;
+      onChunk(parsed);
+      return;
+    }
+
+    let event: ChatStreamEvent;
+    try {
+      event = parseWith<ChatStreamEvent>(chatStreamEventSchema, parsed);
+    } catch (mismatch) {
+      error = mismatch instanceof SchemaMismatchError ? apiErrorFromMismatch(response, mismatch) : toApiError(mismatch);
+      done = true;
+      return;
+    }
+
+    if (event.status === 'error' || event.type === 'error') {
+      error = apiErrorFromResponse(
+        response,
+        { status: 'error', message: event.message, error: event.error },
+        'Failed to get response'
+      );
+      done = true;
+      return;
+    }
+
+    const delta = event.delta ?? event.token;
+    if (typeof delta === 'string' && delta) {
+      accumulated += delta;
+      onChunk(delta);
+    }
+
+    const full = event.data?.response ?? event.response;
+    if (typeof full === 'string') {
+      finalResponse = full;
+    }
+
+    const extra =
+      extractEvaluation(event.data) ??
+      (event.evaluation && typeof event.evaluation === 'object' ? { evaluation: event.evaluation } : undefined);
+    if (extra) {
+      evaluation = extra;
+    }
+
+    const threadId = event.data?.conversation_id ?? event.conversation_id;
+    if (typeof threadId === 'string') {
+      conversationId = threadId;
+    }
+
+    if (event.type === 'done') {
+      done = true;
+    }
+  };
+
+  const handleLine = (line: string) => {
+    if (!isSse) {
+      handleEvent(line);
+      return;
+    }
+    if (line === '') {
+      handleEvent(dataLines.join('\n'));
+      dataLines = [];
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Other SSE fields (event:, id:, retry:, comments) are ignored.
+  };
+
+  const stop = () => reader.cancel().catch(() => undefined);
+  signal?.addEventListener('abort', stop, { once: true });
+
+  try {
+    while (!done && !signal?.aborted) {
+      const idle = window.setTimeout(() => {
+        stalled = true;
+        stop();
+      }, STREAM_IDLE_TIMEOUT_MS);
+      const { value, done: streamDone } = await reader.read().finally(() => window.clearTimeout(idle));
+      if (streamDone) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        handleLine(line);
+        if (done) break;
+      }
+    }
+
+    if (!done && !stalled && !signal?.aborted) {
+      buffer += decoder.decode();
+      if (buffer) handleLine(buffer);
+      handleLine('');
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    if (done) {
+      stop();
+    }
   }
 
-  // FastAPI HTTPValidationError format
-  if (Array.isArray(p?.detail)) {
-    const msgs = p.detail
-      .map((d: any) => d?.msg)
-      .filter(Boolean);
-    return msgs.join(', ') || 'Validation failed';
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+  if (stalled) {
+    return {
+      error: {
+        kind: 'timeout',
+        message: `The response stopped arriving (nothing received for ${STREAM_IDLE_TIMEOUT_MS / 1000}s).`,
+        requestId: response.headers.get('x-request-id') ?? undefined,
+      },
+    };
   }
 
-  return p?.message || 'An error occurred';
-};
+  if (error) return { error };
 
-const networkErrorMessage = (error: unknown): string => {
-  return isAbortError(error) ? 'Request timed out. Please try again.' : 'Network error. Please try again.';
+  const text = finalResponse ?? accumulated;
+  return text
+    ? { response: text, conversationId, evaluation }
+    : { error: apiErrorFromResponse(response, { status: 'error' }, 'Failed to get response') };
 };
 
 // Auth API
 export const authAPI = {
-  async login(username: string, password: string): Promise<{ token?: string; error?: string }> {
+  async login(username: string, password: string): Promise<{ token?: string; error?: ApiError }> {
     try {
-      const payload = await requestApi<{ access_token: string; token_type: string }>(
+      const data = await requestApi<{ access_token: string; token_type?: string; refresh_token?: string }>(
         '/auth/login',
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ username, password }),
-        }
+        },
+        tokenSchema,
+        'Invalid credentials'
       );
 
-      const result = payload as ApiResponse<{ access_token: string; token_type: string }>;
-
-      if (result?.status === 'success' && result?.data?.access_token) {
-        localStorage.setItem('auth_token', result.data.access_token);
-        return { token: result.data.access_token };
+      localStorage.setItem(TOKEN_KEY, data.access_token);
+      if (data.refresh_token) {
+        localStorage.setItem(REFRESH_TOKEN_KEY, data.refresh_token);
+      } else {
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
       }
-
-      return { error: getErrorMessage(payload) };
+      return { token: data.access_token };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { error: toApiError(error) };
     }
   },
 
-  async signup(username: string, password: string): Promise<{ user?: User; error?: string }> {
+  async signup(username: string, password: string): Promise<{ user?: User; error?: ApiError }> {
     try {
-      const payload = await requestApi<{ id: string; username: string; pac_ids: string[] }>(
+      const user = await requestApi<User>(
         '/auth/signup',
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ username, password }),
-        }
+        },
+        userSchema,
+        'Could not create account'
       );
 
-      const result = payload as ApiResponse<{ id: string; username: string; pac_ids: string[] }>;
-
-      if (result?.status === 'success' && result?.data?.id && result?.data?.username) {
-        const user: User = {
-          id: result.data.id,
-          username: result.data.username,
-        };
-        return { user };
-      }
-
-      return { error: getErrorMessage(payload) };
+      return { user };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { error: toApiError(error) };
     }
   },
 
-  async me(): Promise<{ user?: User; error?: string }> {
+  async me(): Promise<{ user?: User; error?: ApiError }> {
     try {
-      const payload = await requestApi<User>('/auth/me', {
-        method: 'GET',
-        headers: authHeaders(),
-      });
-
-      const result = payload as ApiResponse<User>;
-
-      if (result?.status === 'success' && result?.data) {
-        localStorage.setItem('current_user', JSON.stringify(result.data));
-        return { user: result.data };
-      }
+      const user = await requestApi<User>(
+        '/auth/me',
+        {
+          method: 'GET',
+          headers: authHeaders(),
+        },
+        userSchema,
+        'Failed to get user info'
+      );
 
-      return { error: getErrorMessage(payload) || 'Failed to get user info' };
+      localStorage.setItem('current_user', JSON.stringify(user));
+      return { user };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { error: toApiError(error) };
     }
   },
 
@@ -176,125 +486,231 @@ export const authAPI = {
   },
 
   getToken(): string | null {
-    return localStorage.getItem('auth_token');
+    return getToken();
   },
 
   logout() {
     localStorage.removeItem('current_user');
-    localStorage.removeItem('auth_token');
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
   },
 };
 
 // Chat API
 export const chatAPI = {
-  async sendMessage(request: ChatRequest): Promise<{ response?: string; error?: string }> {
+  // Pass onChunk to ask for a streamed reply. Servers that answer with the
+  // regular JSON envelope are handled the same as a one-shot request.
+  async sendMessage(
+    request: ChatRequest,
+    options: ChatSendOptions = {}
+  ): Promise<ChatSendResult> {
+    const { onChunk, signal, idempotencyKey } = options;
+    const headers = onChunk ? { ...authHeaders(), Accept: CHAT_STREAM_ACCEPT } : authHeaders();
+    if (idempotencyKey) {
+      headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
+    }
+
     try {
-      const payload = await requestApi<{ response: string }>('/agent/chat', {
+      const response = await sendAuthorizedRequest('/agent/chat', {
+        signal,
         method: 'POST',
-        headers: authHeaders(),
-        body: JSON.stringify(request),
+        headers,
+        body: JSON.stringify(onChunk ? { ...request, stream: true } : request),
       });
 
-      const result = payload as ApiResponse<{ response: string }>;
-
-      if (result?.status === 'success' && result?.data?.response) {
-        return { response: result.data.response };
+      if (onChunk && isStreamingResponse(response)) {
+        return await readChatStream(response, onChunk, signal);
       }
 
-      return { error: getErrorMessage(payload) || 'Failed to get response' };
+      const data = await readApiResponse<ChatResponseData>(response, chatResponseSchema, 'Failed to get response');
+
+      return {
+        response: data.response,
+        conversationId: data.conversation_id,
+        evaluation: extractEvaluation(data),
+      };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      if (signal?.aborted) {
+        return { cancelled: true };
+      }
+      return { error: toApiError(error) };
     }
   },
 };
 
 // PACS API
 export const pacsAPI = {
-  async getConfigurations(): Promise<{ configs?: PACSConfiguration[]; error?: string }> {
+  async getConfigurations(): Promise<{ configs?: PACSConfiguration[]; error?: ApiError }> {
     try {
-      const payload = await requestApi<PACSConfiguration[]>('/pacs', {
-        method: 'GET',
-        headers: authHeaders(),
-      });
-
-      const result = payload as ApiResponse<PACSConfiguration[]>;
-
-      if (result?.status === 'success' && result?.data) {
-        return { configs: result.data };
-      }
+      const configs = await requestApi<PACSConfiguration[]>(
+        '/pacs',
+        {
+          method: 'GET',
+          headers: authHeaders(),
+        },
+        pacsConfigurationListSchema,
+        'Failed to load configurations'
+      );
 
-      return { error: getErrorMessage(payload) || 'Failed to load configurations' };
+      return { configs };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { error: toApiError(error) };
     }
   },
 
-  async createConfiguration(config: {
-    display_name: string;
-    base_rs: string;
-    location?: string;
-    headers?: Record<string, string>;
-    auth?: Record<string, string>;
-    tags: string[];
-  }): Promise<{ config?: PACSConfiguration; error?: string }> {
+  async createConfiguration(config: PACSConfigurationInput): Promise<{ config?: PACSConfiguration; error?: ApiError }> {
     try {
-      const payload = await requestApi<PACSConfiguration>('/pacs', {
-        method: 'POST',
-        headers: authHeaders(),
-        body: JSON.stringify(config),
-      });
-
-      const result = payload as ApiResponse<PACSConfiguration>;
-
-      if (result?.status === 'success' && result?.data) {
-        return { config: result.data };
-      }
+      const created = await requestApi<PACSConfiguration>(
+        '/pacs',
+        {
+          method: 'POST',
+          headers: authHeaders(),
+          body: JSON.stringify(config),
+        },
+        pacsConfigurationSchema,
+        'Failed to create configuration'
+      );
 
-      return { error: getErrorMessage(payload) || 'Failed to create configuration' };
+      return { config: created };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { error: toApiError(error) };
     }
   },
 
   async updateConfiguration(
     id: string,
     updates: Partial<PACSConfiguration>
-  ): Promise<{ config?: PACSConfiguration; error?: string }> {
+  ): Promise<{ config?: PACSConfiguration; error?: ApiError }> {
     try {
-      const payload = await requestApi<PACSConfiguration>(`/pacs/${id}`, {
-        method: 'PATCH',
-        headers: authHeaders(),
-        body: JSON.stringify(updates),
-      });
+      const updated = await requestApi<PACSConfiguration>(
+        `/pacs/${id}`,
+        {
+          method: 'PATCH',
+          headers: authHeaders(),
+          body: JSON.stringify(updates),
+        },
+        pacsConfigurationSchema,
+        'Failed to update configuration'
+      );
 
-      const result = payload as ApiResponse<PACSConfiguration>;
+      return { config: updated };
+    } catch (error) {
+      return { error: toApiError(error) };
+    }
+  },
 
-      if (result?.status === 'success' && result?.data) {
-        return { config: result.data };
-      }
+  async deleteConfiguration(id: string): Promise<{ success: boolean; error?: ApiError }> {
+    try {
+      await requestApi<unknown>(
+        `/pacs/${id}`,
+        {
+          method: 'DELETE',
+          headers: authHeaders(),
+        },
+        z.unknown(),
+        'Failed to delete configuration'
+      );
 
-      return { error: getErrorMessage(payload) || 'Failed to update configuration' };
+      return { success: true };
     } catch (error) {
-      return { error: networkErrorMessage(error) };
+      return { success: false, error: toApiError(error) };
     }
   },
 
-  async deleteConfiguration(id: string): Promise<{ success: boolean; error?: string }> {
+  // Runs the QIDO-RS probe through the backend when it offers /pacs/test
+  // (no CORS involved, saved secrets stay server-side), falling back to a
+  // direct browser request otherwise.
+  async testConnection(target: PACSConnectionTarget): Promise<PACSConnectionTestResult> {
+    const path = target.id ? `/pacs/${target.id}/test` : '/pacs/test';
+
     try {
-      const payload = await requestApi<unknown>(`/pacs/${id}`, {
-        method: 'DELETE',
+      const response = await sendAuthorizedRequest(path, {
+        method: 'POST',
         headers: authHeaders(),
+        body: target.id ? undefined : JSON.stringify(target),
       });
+      if (isMissingEndpoint(response)) return probeQidoDirect(target);
+
+      const data = await readApiResponse<{
+        reachable?: boolean;
+        status_code?: number;
+        latency_ms?: number;
+        valid_dicom_json?: boolean;
+        message?: string;
+      }>(response, pacsTestResultSchema, 'Connection test failed');
+      return {
+        reachable: !!data.reachable,
+        status: data.status_code,
+        latencyMs: data.latency_ms,
+        corsBlocked: false,
+        validDicomJson: !!data.valid_dicom_json,
+        via: 'proxy',
+        message: data.message || (data.valid_dicom_json ? 'Connected' : 'Probe failed'),
+        testedAt: Date.now(),
+      };
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.kind === 'network') return probeQidoDirect(target);
+      // The backend answered but the test itself failed; that says nothing
+      // about the PACS, so the error is reported instead.
+      return {
+        reachable: false,
+        corsBlocked: false,
+        validDicomJson: false,
+        via: 'proxy',
+        message: apiError.message,
+        testedAt: Date.now(),
+        error: apiError,
+      };
+    }
+  },
 
-      const result = payload as ApiResponse;
-
-      if (result?.status === 'success') {
-        return { success: true };
-      }
+  // Like testConnection, asks the backend first and falls back to probing
+  // the PACS from the browser when the backend has no such endpoint.
+  async discoverCapabilities(
+    config: PACSConfiguration,
+    options: CapabilityProbeOptions = {}
+  ): Promise<{ capabilities?: PACSCapabilities; error?: ApiError }> {
+    const probeDirect = async () => ({
+      capabilities: {
+        pacsId: config.id,
+        probedAt: Date.now(),
+        via: 'direct' as const,
+        results: await probeCapabilitiesDirect(config, options),
+      },
+    });
 
-      return { success: false, error: getErrorMessage(payload) || 'Failed to delete configuration' };
+    try {
+      const response = await sendAuthorizedRequest(`/pacs/${config.id}/capabilities`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ probe_stow: !!options.probeStow }),
+      });
+      if (isMissingEndpoint(response)) return await probeDirect();
+
+      const data = await readApiResponse<{
+        capabilities: Partial<Record<DicomwebCapability, CapabilitySupport>>;
+      }>(response, pacsCapabilitiesSchema, 'Capability check failed');
+      return {
+        capabilities: {
+          pacsId: config.id,
+          probedAt: Date.now(),
+          via: 'proxy',
+          results: {
+            qido_studies: 'unknown',
+            qido_series: 'unknown',
+            qido_instances: 'unknown',
+            wado_metadata: 'unknown',
+            wado_rendered: 'unknown',
+            wado_thumbnail: 'unknown',
+            stow: 'unknown',
+            ...data.capabilities,
+          },
+        },
+      };
     } catch (error) {
-      return { success: false, error: networkErrorMessage(error) };
+      const apiError = toApiError(error);
+      return apiError.kind === 'network' ? await probeDirect() : { error: apiError };
     }
   },
 };
@@ -0,0 +1,114 @@
+import { ApiError, ApiResponse } from '@/types';
+import { SCHEMA_MISMATCH, SchemaMismatchError } from '@/lib/apiSchemas';
+
+// Code safeReadJson puts on the envelope it builds for HTML or text bodies.
+export const NON_JSON_RESPONSE = 'NON_JSON_RESPONSE';
+
+// FastAPI prefixes `loc` with the part of the request the field came from.
+const LOC_SOURCES = ['body', 'query', 'path', 'header'];
+
+/**
+ * Carries an ApiError through code that throws, such as the API helpers and
+ * the TanStack Query hooks. The API methods themselves return `apiError`.
+ */
+export class ApiRequestError extends Error {
+  readonly apiError: ApiError;
+
+  constructor(apiError: ApiError) {
+    super(apiError.message);
+    this.name = 'ApiRequestError';
+    this.apiError = apiError;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && 'name' in error && (error as { name: string }).name === 'AbortError';
+};
+
+const requestIdOf = (response: Response): string | undefined => {
+  return response.headers.get('x-request-id') ?? undefined;
+};
+
+interface ValidationDetail {
+  loc?: unknown;
+  field?: unknown;
+  msg?: unknown;
+}
+
+const validationDetails = (details: unknown): ValidationDetail[] => {
+  return Array.isArray(details) ? details.filter(d => typeof d === 'object' && d !== null) : [];
+};
+
+// Maps validation details, FastAPI's `{ loc, msg }` or our `{ field, msg }`,
+// to messages by field path such as "base_rs" or "auth.token".
+export const fieldErrorsFromDetails = (details: unknown): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  validationDetails(details).forEach(detail => {
+    if (typeof detail.msg !== 'string') return;
+    const loc = Array.isArray(detail.loc)
+      ? detail.loc
+      : typeof detail.field === 'string'
+        ? detail.field.split('.')
+        : [];
+    const path = loc.filter((part, i) => !(i === 0 && LOC_SOURCES.includes(String(part)))).join('.');
+    if (path) {
+      fieldErrors[path] = fieldErrors[path] ? `${fieldErrors[path]}; ${detail.msg}` : detail.msg;
+    }
+  });
+  return fieldErrors;
+};
+
+// Validation errors list one message per field; otherwise the envelope's own.
+const envelopeMessage = (result: ApiResponse): string | undefined => {
+  const msgs = validationDetails(result.error?.details)
+    .map(d => d.msg)
+    .filter((msg): msg is string => typeof msg === 'string' && !!msg);
+  return msgs.join(', ') || result.message || undefined;
+};
+
+// The ApiError for a response whose envelope reports a failure.
+export const apiErrorFromResponse = (response: Response, result: ApiResponse, fallback: string): ApiError => {
+  const base = {
+    message: envelopeMessage(result) || fallback,
+    status: response.status,
+    code: result.error?.code,
+    details: result.error?.details,
+    requestId: requestIdOf(response),
+  };
+
+  if (base.code === NON_JSON_RESPONSE) {
+    // The body is a proxy page or plain text; keep it out of the message.
+    return {
+      ...base,
+      kind: 'non_json',
+      message: `The server returned a non-JSON response (HTTP ${response.status}).`,
+      details: result.message,
+    };
+  }
+  if (response.status === 401) {
+    return { ...base, kind: 'unauthorized' };
+  }
+  if (response.status === 422 || base.code === 'VALIDATION_ERROR') {
+    return { ...base, kind: 'validation', fieldErrors: fieldErrorsFromDetails(base.details) };
+  }
+  return { ...base, kind: 'server' };
+};
+
+export const apiErrorFromMismatch = (response: Response | null, error: SchemaMismatchError): ApiError => {
+  return {
+    kind: 'schema_mismatch',
+    message: error.message,
+    code: SCHEMA_MISMATCH,
+    path: error.path,
+    status: response?.status,
+    requestId: response ? requestIdOf(response) : undefined,
+  };
+};
+
+// Turns anything thrown while calling the API into an ApiError.
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiRequestError) return error.apiError;
+  if (error instanceof SchemaMismatchError) return apiErrorFromMismatch(null, error);
+  if (isAbortError(error)) return { kind: 'timeout', message: 'Request timed out. Please try again.' };
+  return { kind: 'network', message: 'Network error. Please try again.' };
+};
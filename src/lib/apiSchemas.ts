@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { ApiResponse } from '@/types';
+import { isPacsVendor } from '@/lib/pacsVendors';
+
+// Runtime shapes of what the backend sends back. Responses are checked
+// against these before use, so a renamed or retyped field fails loudly with
+// its path instead of showing up as `undefined` in the UI. Without strict
+// mode zod infers every field as optional, so callers name the app type
+// (User, PACSConfiguration, ...) when parsing.
+
+export const SCHEMA_MISMATCH = 'SCHEMA_MISMATCH';
+
+// "data[0].base_rs" style paths, or "response" for the payload itself.
+const formatPath = (path: (string | number)[]): string => {
+  if (path.length === 0) return 'response';
+  return path.map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`)).join('');
+};
+
+export class SchemaMismatchError extends Error {
+  readonly code = SCHEMA_MISMATCH;
+  readonly path: string;
+
+  constructor(issue: z.ZodIssue) {
+    const path = formatPath(issue.path);
+    super(`Unexpected response from the server: ${path}: ${issue.message} (${SCHEMA_MISMATCH})`);
+    this.name = 'SchemaMismatchError';
+    this.path = path;
+  }
+}
+
+// Optional fields come back as null from the backend; the app uses undefined.
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+const apiErrorSchema = z.object({
+  code: optional(z.string()),
+  details: z.unknown(),
+});
+
+const envelopeSchema = z.object({
+  status: z.enum(['success', 'error']),
+  message: optional(z.string()),
+  data: z.unknown(),
+  error: optional(apiErrorSchema),
+});
+
+// FastAPI's own errors (HTTPException, request validation) skip our envelope.
+const fastApiErrorSchema = z.object({ detail: z.union([z.string(), z.array(z.unknown())]) });
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+});
+
+export const tokenSchema = z.object({
+  access_token: z.string(),
+  token_type: optional(z.string()),
+  refresh_token: optional(z.string()),
+});
+
+export const pacsConfigurationSchema = z.object({
+  id: z.string(),
+  display_name: z.string(),
+  base_rs: z.string(),
+  // Unknown server types are dropped rather than rejected, so an older app
+  // still loads configurations made for a newer preset.
+  vendor: optional(z.string()).transform(vendor => (vendor && isPacsVendor(vendor) ? vendor : undefined)),
+  location: optional(z.string()),
+  headers: optional(z.record(z.string())),
+  auth: optional(z.record(z.string())),
+  tags: optional(z.array(z.string())).transform(tags => tags ?? []),
+  created_at: optional(z.string()),
+});
+
+export const pacsConfigurationListSchema = z.array(pacsConfigurationSchema);
+
+export const pacsTestResultSchema = z.object({
+  reachable: optional(z.boolean()),
+  status_code: optional(z.number()),
+  latency_ms: optional(z.number()),
+  valid_dicom_json: optional(z.boolean()),
+  message: optional(z.string()),
+});
+
+export const pacsCapabilitiesSchema = z.object({
+  capabilities: z.record(z.enum(['supported', 'unsupported', 'unknown'])),
+});
+
+// Besides the reply, the agent may add evaluation and debug fields; those are
+// kept as they are.
+export const chatResponseSchema = z
+  .object({
+    response: z.string(),
+    conversation_id: optional(z.string()),
+  })
+  .passthrough();
+
+export type ChatResponseData = z.infer<typeof chatResponseSchema>;
+
+// One event of a streamed reply. Every field is optional since servers send
+// deltas, a final response and a done marker as separate events.
+export const chatStreamEventSchema = z
+  .object({
+    type: optional(z.string()),
+    status: optional(z.string()),
+    delta: optional(z.string()),
+    token: optional(z.string()),
+    response: optional(z.string()),
+    conversation_id: optional(z.string()),
+    evaluation: z.unknown(),
+    data: optional(chatResponseSchema.partial().passthrough()),
+    // Set on error events, which use the envelope's message and error fields.
+    message: optional(z.string()),
+    error: optional(apiErrorSchema),
+  })
+  .passthrough();
+
+export type ChatStreamEvent = z.infer<typeof chatStreamEventSchema>;
+
+// Throws SchemaMismatchError with the first failing path.
+export const parseWith = <T>(schema: z.ZodTypeAny, value: unknown, path: string[] = []): T => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new SchemaMismatchError({ ...issue, path: [...path, ...issue.path] });
+  }
+  return result.data as T;
+};
+
+/**
+ * Checks a payload against the ApiResponse envelope and, for successful
+ * responses, its data against `dataSchema`. FastAPI's `{ detail }` errors are
+ * turned into error envelopes so callers handle a single shape.
+ */
+export const parseApiResponse = <T>(payload: unknown, dataSchema: z.ZodTypeAny): ApiResponse<T> => {
+  const fastApiError = fastApiErrorSchema.safeParse(payload);
+  if (fastApiError.success && !(payload as { status?: unknown }).status) {
+    const { detail } = fastApiError.data;
+    return {
+      status: 'error',
+      message: typeof detail === 'string' ? detail : undefined,
+      error: Array.isArray(detail) ? { code: 'VALIDATION_ERROR', details: detail } : undefined,
+    };
+  }
+
+  const envelope = parseWith<ApiResponse>(envelopeSchema, payload);
+  if (envelope.status !== 'success') {
+    return { status: envelope.status, message: envelope.message, error: envelope.error };
+  }
+  return { ...envelope, data: parseWith<T>(dataSchema, envelope.data, ['data']) };
+};
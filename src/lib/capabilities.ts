@@ -0,0 +1,74 @@
+import { CapabilitySupport, DicomwebCapability, PACSCapabilities } from '@/types';
+
+// Cached DICOMweb capability probes, keyed by PACS id. Kept in localStorage
+// per user as `${CAPABILITIES_KEY}:${userId}` so features can check support
+// synchronously while rendering.
+const CAPABILITIES_KEY = 'medchat_pacs_capabilities';
+
+const scopedKey = (userId: string) => `${CAPABILITIES_KEY}:${userId}`;
+
+export const CAPABILITIES_UPDATED_EVENT = 'medchat:pacs-capabilities-updated';
+// Probes older than this are shown as stale and worth re-running.
+export const CAPABILITY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const CAPABILITY_LABELS: Record<DicomwebCapability, string> = {
+  qido_studies: 'QIDO studies',
+  qido_series: 'QIDO series',
+  qido_instances: 'QIDO instances',
+  wado_metadata: 'WADO metadata',
+  wado_rendered: 'Rendered',
+  wado_thumbnail: 'Thumbnails',
+  stow: 'STOW',
+};
+
+export const loadCapabilities = (userId: string): Record<string, PACSCapabilities> => {
+  const stored = localStorage.getItem(scopedKey(userId));
+  if (!stored) return {};
+
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveCapabilities = (userId: string, capabilities: PACSCapabilities) => {
+  const all = loadCapabilities(userId);
+  all[capabilities.pacsId] = capabilities;
+  localStorage.setItem(scopedKey(userId), JSON.stringify(all));
+  window.dispatchEvent(new Event(CAPABILITIES_UPDATED_EVENT));
+};
+
+// Drops cached probes for configurations that no longer exist.
+export const pruneCapabilities = (userId: string, pacsIds: string[]) => {
+  const all = loadCapabilities(userId);
+  const kept = Object.fromEntries(Object.entries(all).filter(([id]) => pacsIds.includes(id)));
+  if (Object.keys(kept).length !== Object.keys(all).length) {
+    localStorage.setItem(scopedKey(userId), JSON.stringify(kept));
+    window.dispatchEvent(new Event(CAPABILITIES_UPDATED_EVENT));
+  }
+};
+
+export const isCapabilityStale = (capabilities: PACSCapabilities): boolean => {
+  return Date.now() - capabilities.probedAt > CAPABILITY_TTL_MS;
+};
+
+export const capabilitySupport = (
+  capabilities: PACSCapabilities | undefined,
+  capability: DicomwebCapability
+): CapabilitySupport => {
+  return capabilities?.results[capability] ?? 'unknown';
+};
+
+/**
+ * Whether a feature relying on a capability should be offered for a server.
+ * Servers that were never probed, or where the probe could not tell, count
+ * as supported so features are not hidden on a guess.
+ */
+export const mayUseCapability = (
+  capabilities: PACSCapabilities | undefined,
+  capability: DicomwebCapability
+): boolean => {
+  return capabilitySupport(capabilities, capability) !== 'unsupported';
+};
@@ -0,0 +1,74 @@
+import { ChatHistoryTurn, ChatMessage } from '@/types';
+
+export interface ChatContextWindow {
+  // Most recent messages sent verbatim.
+  maxTurns: number;
+  // Upper bound on the characters of verbatim history.
+  maxChars: number;
+  // Replace dropped turns with a short recap instead of discarding them.
+  summarizeOverflow: boolean;
+}
+
+const readNonNegativeInt = (value: unknown, fallback: number): number => {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const DEFAULT_CONTEXT_WINDOW: ChatContextWindow = {
+  maxTurns: readNonNegativeInt(import.meta.env.VITE_CHAT_CONTEXT_MAX_TURNS, 12),
+  maxChars: readNonNegativeInt(import.meta.env.VITE_CHAT_CONTEXT_MAX_CHARS, 8000),
+  summarizeOverflow: import.meta.env.VITE_CHAT_CONTEXT_SUMMARIZE !== 'false',
+};
+
+const RECAP_PROMPT_LENGTH = 120;
+const RECAP_MAX_PROMPTS = 10;
+
+const clip = (text: string, length: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+};
+
+// Only the user's earlier requests are recapped: they carry the filters and
+// scope that follow-ups refer to, and are far shorter than the replies.
+const summarizeTurns = (dropped: ChatMessage[]): ChatHistoryTurn | null => {
+  const prompts = dropped
+    .filter(m => m.role === 'user')
+    .slice(-RECAP_MAX_PROMPTS)
+    .map(m => `- ${clip(m.content, RECAP_PROMPT_LENGTH)}`);
+  if (prompts.length === 0) return null;
+
+  return {
+    role: 'system',
+    content: `Earlier in this conversation the user asked:\n${prompts.join('\n')}`,
+  };
+};
+
+/**
+ * Builds the history sent with a prompt from the messages already in the
+ * thread. Turns still streaming or stopped before any content arrived are
+ * skipped; the newest turns are kept until either limit of the window is hit.
+ */
+export const buildChatHistory = (
+  messages: ChatMessage[],
+  window: ChatContextWindow = DEFAULT_CONTEXT_WINDOW
+): ChatHistoryTurn[] => {
+  const settled = messages.filter(m => m.status !== 'streaming' && m.content.trim());
+
+  const kept: ChatMessage[] = [];
+  let chars = 0;
+  for (let i = settled.length - 1; i >= 0 && kept.length < window.maxTurns; i--) {
+    chars += settled[i].content.length;
+    if (chars > window.maxChars) break;
+    kept.unshift(settled[i]);
+  }
+
+  const history: ChatHistoryTurn[] = kept.map(m => ({ role: m.role, content: m.content }));
+  const dropped = settled.slice(0, settled.length - kept.length);
+
+  if (window.summarizeOverflow && dropped.length > 0) {
+    const recap = summarizeTurns(dropped);
+    if (recap) history.unshift(recap);
+  }
+
+  return history;
+};
@@ -0,0 +1,116 @@
+import { ChatMessage, ChatWipeScope, Conversation } from '@/types';
+
+// Conversations are stored per user as `${CONVERSATIONS_KEY}:${user.id}`.
+const CONVERSATIONS_KEY = 'medchat_conversations';
+// Single-thread history written by earlier versions of the chat page.
+const LEGACY_MESSAGES_KEY = 'medchat_messages';
+const LOGOUT_WIPE_KEY = 'medchat_logout_wipe';
+
+const WIPE_SCOPES: ChatWipeScope[] = ['none', 'user', 'all'];
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 48;
+
+const scopedKey = (userId: string) => `${CONVERSATIONS_KEY}:${userId}`;
+
+const readJson = <T>(key: string): T | null => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return null;
+  }
+};
+
+// A reply that was still streaming when the page closed is kept if it has
+// any content, and dropped otherwise.
+const settleMessages = (messages: ChatMessage[]): ChatMessage[] => {
+  return messages
+    .filter(m => m.status !== 'streaming' || m.content)
+    .map(m => (m.status === 'streaming' ? { ...m, status: undefined } : m));
+};
+
+const conversationFromLegacy = (messages: ChatMessage[]): Conversation | null => {
+  if (messages.length === 0) return null;
+
+  const firstUser = messages.find(m => m.role === 'user');
+  return {
+    id: crypto.randomUUID(),
+    title: firstUser ? titleFromPrompt(firstUser.content) : DEFAULT_CONVERSATION_TITLE,
+    messages,
+    pinned: false,
+    createdAt: messages[0].timestamp,
+    updatedAt: messages[messages.length - 1].timestamp,
+  };
+};
+
+/**
+ * Moves chat history written before storage was scoped per user into the
+ * scope of the user whose session wrote it. Without a session the history
+ * cannot be attributed to anyone, so it is discarded instead.
+ */
+export const migrateUnscopedConversations = (userId: string | null) => {
+  const unscoped = readJson<Conversation[]>(CONVERSATIONS_KEY) ?? [];
+  const legacy = conversationFromLegacy(settleMessages(readJson<ChatMessage[]>(LEGACY_MESSAGES_KEY) ?? []));
+  const migrated = legacy ? [...unscoped, legacy] : unscoped;
+
+  if (userId && migrated.length > 0) {
+    saveConversations(userId, [...loadConversations(userId), ...migrated]);
+  }
+
+  localStorage.removeItem(CONVERSATIONS_KEY);
+  localStorage.removeItem(LEGACY_MESSAGES_KEY);
+};
+
+export const loadConversations = (userId: string): Conversation[] => {
+  const conversations = readJson<Conversation[]>(scopedKey(userId)) ?? [];
+  return conversations.map(c => ({ ...c, messages: settleMessages(c.messages) }));
+};
+
+export const saveConversations = (userId: string, conversations: Conversation[]) => {
+  localStorage.setItem(scopedKey(userId), JSON.stringify(conversations));
+};
+
+const isWipeScope = (value: unknown): value is ChatWipeScope => {
+  return WIPE_SCOPES.includes(value as ChatWipeScope);
+};
+
+// Device preference first, then the build-time default, then keep history.
+export const getLogoutWipeScope = (): ChatWipeScope => {
+  const stored = localStorage.getItem(LOGOUT_WIPE_KEY);
+  if (isWipeScope(stored)) return stored;
+
+  const configured = import.meta.env.VITE_CHAT_LOGOUT_WIPE;
+  return isWipeScope(configured) ? configured : 'none';
+};
+
+export const setLogoutWipeScope = (scope: ChatWipeScope) => {
+  localStorage.setItem(LOGOUT_WIPE_KEY, scope);
+};
+
+export const wipeConversations = (scope: ChatWipeScope, userId: string | null) => {
+  if (scope === 'user' && userId) {
+    localStorage.removeItem(scopedKey(userId));
+  } else if (scope === 'all') {
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i));
+    keys
+      .filter((key): key is string => !!key && key.startsWith(`${CONVERSATIONS_KEY}:`))
+      .forEach(key => localStorage.removeItem(key));
+  }
+};
+
+export const titleFromPrompt = (prompt: string): string => {
+  const line = prompt.trim().split('\n')[0].trim();
+  if (!line) return DEFAULT_CONVERSATION_TITLE;
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : line;
+};
+
+// Pinned threads first, then most recently active.
+export const sortConversations = (conversations: Conversation[]): Conversation[] => {
+  return [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+};
@@ -0,0 +1,231 @@
+import {
+  CapabilitySupport,
+  DicomwebCapability,
+  PACSConnectionTarget,
+  PACSConnectionTestResult,
+} from '@/types';
+import { resolveAuthHeaders } from '@/lib/pacsAuth';
+
+export const DICOM_JSON = 'application/dicom+json';
+const PROBE_TIMEOUT_MS = 10000;
+const TAG_PATTERN = /^[0-9A-F]{8}$/i;
+
+export const dicomwebUrl = (baseRs: string, path: string): string => {
+  return `${baseRs.trim().replace(/\/+$/, '')}${path.startsWith('/') ? path : `/${path}`}`;
+};
+
+// DICOM JSON (PS3.18 F.2) is an array of objects keyed by 8-hex-digit tags,
+// each holding an element with at least a `vr`.
+export const isDicomJson = (payload: unknown): boolean => {
+  return (
+    Array.isArray(payload) &&
+    payload.every(
+      item =>
+        !!item &&
+        typeof item === 'object' &&
+        Object.entries(item).every(
+          ([tag, element]) => TAG_PATTERN.test(tag) && !!element && typeof element === 'object' && 'vr' in element
+        )
+    )
+  );
+};
+
+const withTimeout = async (input: string, init: RequestInit, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  const id = window.setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(input, { ...init, signal: controller.signal });
+  } finally {
+    window.clearTimeout(id);
+  }
+};
+
+// A failed CORS request and an unreachable host both surface as a TypeError.
+// An opaque no-cors request only succeeds if the server actually answered.
+const answersWithoutCors = async (url: string): Promise<boolean> => {
+  try {
+    await withTimeout(url, { mode: 'no-cors' }, PROBE_TIMEOUT_MS);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface DicomwebRequestResult {
+  response?: Response;
+  latencyMs?: number;
+  corsBlocked: boolean;
+  error?: string;
+}
+
+/**
+ * Issues a request (GET unless told otherwise) against a DICOMweb path from
+ * the browser with the target's headers and auth, classifying network
+ * failures as CORS or unreachable.
+ */
+export const dicomwebRequest = async (
+  target: PACSConnectionTarget,
+  path: string,
+  accept: string = DICOM_JSON,
+  init: { method?: string; body?: BodyInit; contentType?: string } = {}
+): Promise<DicomwebRequestResult> => {
+  const url = dicomwebUrl(target.base_rs, path);
+
+  let authHeaders: Record<string, string>;
+  try {
+    authHeaders = await resolveAuthHeaders(target.auth);
+  } catch (error) {
+    return { corsBlocked: false, error: error instanceof Error ? error.message : 'Could not authenticate' };
+  }
+
+  const started = performance.now();
+  try {
+    const response = await withTimeout(
+      url,
+      {
+        method: init.method ?? 'GET',
+        headers: {
+          Accept: accept,
+          ...(init.contentType ? { 'Content-Type': init.contentType } : {}),
+          ...target.headers,
+          ...authHeaders,
+        },
+        body: init.body,
+      },
+      PROBE_TIMEOUT_MS
+    );
+    return { response, latencyMs: Math.round(performance.now() - started), corsBlocked: false };
+  } catch (error) {
+    const latencyMs = Math.round(performance.now() - started);
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return { latencyMs, corsBlocked: false, error: `No response within ${PROBE_TIMEOUT_MS / 1000}s` };
+    }
+    if (await answersWithoutCors(url)) {
+      return { latencyMs, corsBlocked: true, error: 'The server answered but blocked the request (CORS)' };
+    }
+    return { latencyMs, corsBlocked: false, error: 'Server unreachable' };
+  }
+};
+
+// Minimal QIDO-RS query run directly from the browser.
+export const probeQidoDirect = async (target: PACSConnectionTarget): Promise<PACSConnectionTestResult> => {
+  const { response, latencyMs, corsBlocked, error } = await dicomwebRequest(target, '/studies?limit=1');
+  const base = { latencyMs, corsBlocked, via: 'direct' as const, testedAt: Date.now() };
+
+  if (!response) {
+    return { ...base, reachable: corsBlocked, validDicomJson: false, message: error ?? 'Request failed' };
+  }
+
+  const status = response.status;
+  if (status === 204) {
+    return { ...base, reachable: true, status, validDicomJson: true, message: 'Connected (no studies found)' };
+  }
+  if (status === 401 || status === 403) {
+    return { ...base, reachable: true, status, validDicomJson: false, message: `Authentication rejected (HTTP ${status})` };
+  }
+  if (!response.ok) {
+    return { ...base, reachable: true, status, validDicomJson: false, message: `Server returned HTTP ${status}` };
+  }
+
+  const payload = await response.json().catch(() => undefined);
+  const validDicomJson = isDicomJson(payload);
+  return {
+    ...base,
+    reachable: true,
+    status,
+    validDicomJson,
+    message: validDicomJson ? 'Connected' : 'Response is not DICOM JSON; check the base URL',
+  };
+};
+
+const STUDY_UID = '0020000D';
+const SERIES_UID = '0020000E';
+const SOP_UID = '00080018';
+const STOW_BOUNDARY = 'medchat-capability-probe';
+
+const firstValue = (payload: unknown, tag: string): string | undefined => {
+  const element = Array.isArray(payload) ? payload[0]?.[tag] : undefined;
+  const value = element?.Value?.[0];
+  return typeof value === 'string' ? value : undefined;
+};
+
+// 404/405/501 mean the route is not implemented; auth failures, network
+// errors and 5xx say nothing about support.
+const classify = (result: DicomwebRequestResult, accepts: (response: Response) => boolean): CapabilitySupport => {
+  const status = result.response?.status;
+  if (status === undefined || status === 401 || status === 403 || (status >= 500 && status !== 501)) return 'unknown';
+  if (status === 404 || status === 405 || status === 406 || status === 501 || status === 400) return 'unsupported';
+  return accepts(result.response) ? 'supported' : 'unsupported';
+};
+
+const isImage = (response: Response) => (response.headers.get('Content-Type') ?? '').startsWith('image/');
+
+export interface CapabilityProbeOptions {
+  // STOW can only be detected by posting to it, so it is left as unknown
+  // unless the user asks for that request to be sent.
+  probeStow?: boolean;
+}
+
+/**
+ * Probes which DICOMweb services a server implements, from the browser.
+ * QIDO runs at each level first so WADO can be tried against a real
+ * instance. Only reads are sent unless `probeStow` is set; STOW is then
+ * probed with an empty multipart body, which a STOW endpoint rejects
+ * without storing anything.
+ */
+export const probeCapabilitiesDirect = async (
+  target: PACSConnectionTarget,
+  { probeStow = false }: CapabilityProbeOptions = {}
+): Promise<Record<DicomwebCapability, CapabilitySupport>> => {
+  const qido = async (path: string) => {
+    const result = await dicomwebRequest(target, path);
+    const payload = result.response?.status === 200 ? await result.response.json().catch(() => undefined) : undefined;
+    const support = classify(result, response => response.status === 204 || isDicomJson(payload));
+    return { support, payload };
+  };
+
+  const studies = await qido('/studies?limit=1');
+  const series = await qido('/series?limit=1');
+  const instances = await qido('/instances?limit=1');
+
+  const results: Record<DicomwebCapability, CapabilitySupport> = {
+    qido_studies: studies.support,
+    qido_series: series.support,
+    qido_instances: instances.support,
+    wado_metadata: 'unknown',
+    wado_rendered: 'unknown',
+    wado_thumbnail: 'unknown',
+    stow: 'unknown',
+  };
+
+  const studyUid = firstValue(instances.payload, STUDY_UID);
+  const seriesUid = firstValue(instances.payload, SERIES_UID);
+  const sopUid = firstValue(instances.payload, SOP_UID);
+  if (studyUid && seriesUid && sopUid) {
+    const instancePath = `/studies/${studyUid}/series/${seriesUid}/instances/${sopUid}`;
+    const metadata = await dicomwebRequest(target, `${instancePath}/metadata`);
+    const metadataPayload =
+      metadata.response?.status === 200 ? await metadata.response.json().catch(() => undefined) : undefined;
+    results.wado_metadata = classify(metadata, () => isDicomJson(metadataPayload));
+    results.wado_rendered = classify(await dicomwebRequest(target, `${instancePath}/rendered`, 'image/jpeg'), isImage);
+    results.wado_thumbnail = classify(await dicomwebRequest(target, `${instancePath}/thumbnail`, 'image/jpeg'), isImage);
+  }
+
+  if (!probeStow) return results;
+
+  const stow = await dicomwebRequest(target, '/studies', DICOM_JSON, {
+    method: 'POST',
+    body: `--${STOW_BOUNDARY}--\r\n`,
+    contentType: `multipart/related; type="application/dicom"; boundary=${STOW_BOUNDARY}`,
+  });
+  // Anything other than "no such route" means a STOW handler looked at it.
+  const stowStatus = stow.response?.status;
+  results.stow =
+    stowStatus === undefined || stowStatus === 401 || stowStatus === 403
+      ? 'unknown'
+      : stowStatus === 404 || stowStatus === 405 || stowStatus === 501
+        ? 'unsupported'
+        : 'supported';
+
+  return results;
+};
@@ -0,0 +1,151 @@
+import { PACSConnectionTestResult, PACSHealthSample, PACSHealthStatus } from '@/types';
+
+// Rolling history of PACS health checks, kept in IndexedDB so it survives
+// reloads without growing localStorage. Samples are read per user.
+const DB_NAME = 'medchat';
+const DB_VERSION = 1;
+const STORE = 'pacs_health';
+const BY_USER = 'userId_testedAt';
+const BY_USER_PACS = 'userId_pacsId_testedAt';
+
+export const HEALTH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const HEALTH_UPDATED_EVENT = 'medchat:pacs-health-updated';
+
+export const HEALTH_STATUS_LABELS: Record<PACSHealthStatus | 'unknown', string> = {
+  up: 'Up',
+  degraded: 'Degraded',
+  down: 'Down',
+  unknown: 'Not checked',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { autoIncrement: true });
+        store.createIndex('testedAt', 'testedAt');
+        store.createIndex(BY_USER, ['userId', 'testedAt']);
+        store.createIndex(BY_USER_PACS, ['userId', 'pacsId', 'testedAt']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const healthStatusOf = (result: PACSConnectionTestResult): PACSHealthStatus => {
+  if (!result.reachable) return 'down';
+  return result.validDicomJson ? 'up' : 'degraded';
+};
+
+export interface HealthCheck {
+  pacsId: string;
+  result: PACSConnectionTestResult;
+}
+
+/**
+ * Stores the results of one round of checks. Listeners are notified once per
+ * round rather than once per server, since each of them re-reads the store.
+ */
+export const recordHealthChecks = async (userId: string, checks: HealthCheck[]) => {
+  if (checks.length === 0) return;
+
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  checks.forEach(({ pacsId, result }) => {
+    const sample: PACSHealthSample = {
+      userId,
+      pacsId,
+      testedAt: result.testedAt,
+      status: healthStatusOf(result),
+      httpStatus: result.status,
+      latencyMs: result.latencyMs,
+      message: result.message,
+    };
+    store.add(sample);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  window.dispatchEvent(new CustomEvent(HEALTH_UPDATED_EVENT));
+};
+
+export const getHealthHistory = async (userId: string, since: number): Promise<PACSHealthSample[]> => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(BY_USER);
+  const range = IDBKeyRange.bound([userId, since], [userId, Infinity]);
+  return promisify(index.getAll(range) as IDBRequest<PACSHealthSample[]>);
+};
+
+// The newest sample of each PACS, read without loading the whole history.
+export const getLatestHealth = async (
+  userId: string,
+  pacsIds: string[]
+): Promise<Record<string, PACSHealthSample>> => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(BY_USER_PACS);
+  const latest: Record<string, PACSHealthSample> = {};
+
+  await Promise.all(
+    pacsIds.map(async pacsId => {
+      const range = IDBKeyRange.bound([userId, pacsId, -Infinity], [userId, pacsId, Infinity]);
+      const cursor = await promisify(index.openCursor(range, 'prev'));
+      if (cursor) latest[pacsId] = cursor.value as PACSHealthSample;
+    })
+  );
+  return latest;
+};
+
+// Drops samples older than the retention window.
+export const pruneHealthHistory = async (retentionMs: number = HEALTH_RETENTION_MS) => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readwrite').objectStore(STORE).index('testedAt');
+  const cursorRequest = index.openCursor(IDBKeyRange.upperBound(Date.now() - retentionMs, true));
+
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+// Most recent sample per PACS id.
+export const latestByPacs = (samples: PACSHealthSample[]): Record<string, PACSHealthSample> => {
+  const latest: Record<string, PACSHealthSample> = {};
+  samples.forEach(sample => {
+    if (!latest[sample.pacsId] || latest[sample.pacsId].testedAt < sample.testedAt) {
+      latest[sample.pacsId] = sample;
+    }
+  });
+  return latest;
+};
+
+export const uptimePercent = (samples: PACSHealthSample[]): number | null => {
+  if (samples.length === 0) return null;
+  return (samples.filter(s => s.status === 'up').length / samples.length) * 100;
+};
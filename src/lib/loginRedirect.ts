@@ -0,0 +1,18 @@
+import { Location } from 'react-router-dom';
+
+// The login page returns users to the page they were sent away from, passed
+// along as `?next=`.
+
+export const loginPath = (location: Pick<Location, 'pathname' | 'search'>): string => {
+  const next = `${location.pathname}${location.search}`;
+  // Already on the login page: keep whatever `next` it was given.
+  if (location.pathname === '/login') return next;
+  return next === '/' ? '/login' : `/login?next=${encodeURIComponent(next)}`;
+};
+
+// Only paths within the app are followed, so a crafted link cannot send a
+// freshly signed-in user to another site ("//evil.example" included).
+export const safeNextPath = (next: string | null, fallback = '/chat'): string => {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return fallback;
+  return next;
+};
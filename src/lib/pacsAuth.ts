@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import { PACSAuthScheme } from '@/types';
+
+// PACSConfiguration.auth is a flat string record on the wire. The scheme is
+// stored under `type`; the remaining keys depend on the scheme.
+
+export interface AuthField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+export const AUTH_SCHEMES: { value: PACSAuthScheme; label: string; fields: AuthField[] }[] = [
+  { value: 'none', label: 'None', fields: [] },
+  {
+    value: 'basic',
+    label: 'HTTP Basic',
+    fields: [
+      { key: 'username', label: 'Username' },
+      { key: 'password', label: 'Password', secret: true },
+    ],
+  },
+  {
+    value: 'bearer',
+    label: 'Bearer token',
+    fields: [{ key: 'token', label: 'Token', secret: true }],
+  },
+  {
+    value: 'api_key',
+    label: 'API key header',
+    fields: [
+      { key: 'header', label: 'Header name', placeholder: 'e.g., X-API-Key' },
+      { key: 'value', label: 'API key', secret: true },
+    ],
+  },
+  {
+    value: 'oauth2_client_credentials',
+    label: 'OAuth2 client credentials',
+    fields: [
+      { key: 'token_url', label: 'Token URL', placeholder: 'https://auth.example.org/oauth2/token' },
+      { key: 'client_id', label: 'Client ID' },
+      { key: 'client_secret', label: 'Client secret', secret: true },
+      { key: 'scope', label: 'Scope', placeholder: 'Space-separated scopes', optional: true },
+    ],
+  },
+];
+
+// RFC 7230 token characters.
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const required = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+const authSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({ type: z.literal('basic'), username: required('Username'), password: required('Password') }),
+  z.object({ type: z.literal('bearer'), token: required('Token') }),
+  z.object({
+    type: z.literal('api_key'),
+    header: required('Header name').regex(HEADER_NAME_PATTERN, 'Header name contains invalid characters'),
+    value: required('API key'),
+  }),
+  z.object({
+    type: z.literal('oauth2_client_credentials'),
+    token_url: required('Token URL').url('Token URL must be a valid URL').regex(/^https?:\/\//i, 'Token URL must use http or https'),
+    client_id: required('Client ID'),
+    client_secret: required('Client secret'),
+    scope: z.string().trim().optional(),
+  }),
+]);
+
+export const getAuthScheme = (auth?: Record<string, string> | null): PACSAuthScheme => {
+  const type = auth?.type;
+  return AUTH_SCHEMES.some(s => s.value === type) ? (type as PACSAuthScheme) : 'none';
+};
+
+export const getAuthSchemeLabel = (scheme: PACSAuthScheme): string => {
+  return AUTH_SCHEMES.find(s => s.value === scheme)?.label ?? 'None';
+};
+
+// Summarises auth and headers without revealing any saved values.
+export const describeAccess = (config: {
+  auth?: Record<string, string> | null;
+  headers?: Record<string, string> | null;
+}): string | null => {
+  const parts: string[] = [];
+  const scheme = getAuthScheme(config.auth);
+  const headerCount = Object.keys(config.headers ?? {}).length;
+
+  if (scheme !== 'none') parts.push(getAuthSchemeLabel(scheme));
+  if (headerCount > 0) parts.push(`${headerCount} custom ${headerCount === 1 ? 'header' : 'headers'}`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+export const isSecretField = (scheme: PACSAuthScheme, key: string): boolean => {
+  return !!AUTH_SCHEMES.find(s => s.value === scheme)?.fields.find(f => f.key === key)?.secret;
+};
+
+// Keys of an auth record that hold no credential: the scheme and the
+// non-secret fields it defines. Records without a known `type` have none.
+export const isPublicAuthField = (auth: Record<string, string>, key: string): boolean => {
+  if (key === 'type') return true;
+  const scheme = AUTH_SCHEMES.find(s => s.value === auth.type);
+  return !!scheme?.fields.some(f => f.key === key && !f.secret);
+};
+
+// Header names that usually carry a credential, e.g. Authorization,
+// X-API-Key or Cookie.
+const CREDENTIAL_HEADER_PATTERN = /auth|cookie|token|secret|key|password|session/i;
+
+export const isCredentialHeader = (name: string): boolean => CREDENTIAL_HEADER_PATTERN.test(name);
+
+/**
+ * Builds the auth record for a scheme from form values. Secret fields left
+ * blank keep the value already saved for the same scheme, since saved
+ * secrets are never echoed back into the form.
+ */
+export const buildAuth = (
+  scheme: PACSAuthScheme,
+  values: Record<string, string>,
+  saved?: Record<string, string> | null
+): { auth?: Record<string, string>; error?: string } => {
+  if (scheme === 'none') return { auth: undefined };
+
+  const fields = AUTH_SCHEMES.find(s => s.value === scheme)?.fields ?? [];
+  const sameScheme = getAuthScheme(saved) === scheme;
+  const candidate: Record<string, string> = { type: scheme };
+
+  fields.forEach(field => {
+    const value = values[field.key]?.trim() ?? '';
+    if (value) {
+      candidate[field.key] = value;
+    } else if (field.secret && sameScheme && saved?.[field.key]) {
+      candidate[field.key] = saved[field.key];
+    } else if (!field.optional) {
+      candidate[field.key] = '';
+    }
+  });
+
+  const validation = authSchema.safeParse(candidate);
+  if (!validation.success) {
+    return { error: validation.error.errors[0].message };
+  }
+  return { auth: candidate };
+};
+
+// Validates a complete auth record, e.g. one read from an import file.
+export const validateAuth = (auth?: Record<string, string> | null): string | null => {
+  if (!auth || Object.keys(auth).length === 0) return null;
+  const validation = authSchema.safeParse(auth);
+  return validation.success ? null : validation.error.errors[0].message;
+};
+
+// Form values for a saved auth record, with secrets blanked out.
+export const authFormValues = (auth?: Record<string, string> | null): Record<string, string> => {
+  const scheme = getAuthScheme(auth);
+  const values: Record<string, string> = {};
+  AUTH_SCHEMES.find(s => s.value === scheme)?.fields.forEach(field => {
+    values[field.key] = field.secret ? '' : auth?.[field.key] ?? '';
+  });
+  return values;
+};
+
+export interface HeaderRow {
+  id: string;
+  name: string;
+  value: string;
+}
+
+export const headerRowsFromRecord = (headers?: Record<string, string> | null): HeaderRow[] => {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ id: crypto.randomUUID(), name, value }));
+};
+
+// Rows with neither a name nor a value are ignored.
+export const buildHeaders = (
+  rows: HeaderRow[],
+  scheme: PACSAuthScheme
+): { headers?: Record<string, string>; error?: string } => {
+  const headers: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const name = row.name.trim();
+    const value = row.value.trim();
+    if (!name && !value) continue;
+
+    if (!name) return { error: 'Every header needs a name' };
+    if (!HEADER_NAME_PATTERN.test(name)) return { error: `Header "${name}" contains invalid characters` };
+    if (seen.has(name.toLowerCase())) return { error: `Header "${name}" is listed more than once` };
+    if (name.toLowerCase() === 'authorization' && scheme !== 'none') {
+      return { error: 'Remove the Authorization header or set the authentication scheme to None' };
+    }
+
+    seen.add(name.toLowerCase());
+    headers[name] = value;
+  }
+
+  return { headers: Object.keys(headers).length > 0 ? headers : undefined };
+};
+
+const base64 = (value: string): string => {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+};
+
+const fetchClientCredentialsToken = async (auth: Record<string, string>): Promise<string> => {
+  const body = new URLSearchParams({
+    grant_type: 'client_credentials',
+    client_id: auth.client_id ?? '',
+    client_secret: auth.client_secret ?? '',
+  });
+  if (auth.scope) body.set('scope', auth.scope);
+
+  const response = await fetch(auth.token_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || typeof payload?.access_token !== 'string') {
+    throw new Error(`OAuth2 token request failed (HTTP ${response.status})`);
+  }
+  return payload.access_token;
+};
+
+/**
+ * Request headers that authenticate a browser request to a PACS with the
+ * given auth record. OAuth2 client credentials are exchanged for a token
+ * first, so this can reject when the token endpoint fails.
+ */
+export const resolveAuthHeaders = async (auth?: Record<string, string> | null): Promise<Record<string, string>> => {
+  switch (getAuthScheme(auth)) {
+    case 'basic':
+      return { Authorization: `Basic ${base64(`${auth.username}:${auth.password}`)}` };
+    case 'bearer':
+      return { Authorization: `Bearer ${auth.token}` };
+    case 'api_key':
+      return { [auth.header]: auth.value };
+    case 'oauth2_client_credentials':
+      return { Authorization: `Bearer ${await fetchClientCredentialsToken(auth)}` };
+    default:
+      return {};
+  }
+};
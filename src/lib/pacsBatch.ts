@@ -0,0 +1,98 @@
+import { pacsAPI } from '@/lib/api';
+import { PACSConfiguration } from '@/types';
+
+// Batch edits over several PACS configurations. Each item is its own API
+// call, so a batch can partly succeed; callers get one result per item.
+
+export const BATCH_CONCURRENCY = 4;
+
+export type PACSBatchAction =
+  | { kind: 'delete' }
+  | { kind: 'add_tags'; tags: string[] }
+  | { kind: 'remove_tags'; tags: string[] }
+  // Renames each `from` tag to `to`; with several sources this merges them.
+  | { kind: 'rename_tags'; from: string[]; to: string }
+  | { kind: 'set_location'; location: string };
+
+export interface PACSBatchResult {
+  config: PACSConfiguration;
+  ok: boolean;
+  // True when the item already matched and no request was sent.
+  unchanged?: boolean;
+  error?: string;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and
+ * returns the results in input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+const sameTags = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+};
+
+// The PATCH body for a non-delete action, or null when nothing would change.
+const updatesFor = (config: PACSConfiguration, action: PACSBatchAction): Partial<PACSConfiguration> | null => {
+  const tags = config.tags ?? [];
+  switch (action.kind) {
+    case 'add_tags': {
+      const next = Array.from(new Set([...tags, ...action.tags]));
+      return sameTags(next, tags) ? null : { tags: next };
+    }
+    case 'remove_tags': {
+      const next = tags.filter(tag => !action.tags.includes(tag));
+      return sameTags(next, tags) ? null : { tags: next };
+    }
+    case 'rename_tags': {
+      const next = Array.from(new Set(tags.map(tag => (action.from.includes(tag) ? action.to : tag))));
+      return sameTags(next, tags) ? null : { tags: next };
+    }
+    case 'set_location':
+      return action.location === (config.location ?? '') ? null : { location: action.location };
+    default:
+      return null;
+  }
+};
+
+const runOne = async (config: PACSConfiguration, action: PACSBatchAction): Promise<PACSBatchResult> => {
+  if (action.kind === 'delete') {
+    const result = await pacsAPI.deleteConfiguration(config.id);
+    return { config, ok: result.success, error: result.success ? undefined : result.error.message };
+  }
+
+  const updates = updatesFor(config, action);
+  if (!updates) return { config, ok: true, unchanged: true };
+
+  const result = await pacsAPI.updateConfiguration(config.id, updates);
+  return { config, ok: !!result.config, error: result.config ? undefined : result.error.message };
+};
+
+export const runBatchAction = (
+  configs: PACSConfiguration[],
+  action: PACSBatchAction,
+  onItemDone?: (result: PACSBatchResult) => void
+): Promise<PACSBatchResult[]> => {
+  return mapWithConcurrency(configs, BATCH_CONCURRENCY, async config => {
+    const result = await runOne(config, action);
+    onItemDone?.(result);
+    return result;
+  });
+};
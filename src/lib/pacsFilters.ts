@@ -0,0 +1,128 @@
+import { PACSConfiguration } from '@/types';
+
+// View state of the PACS configuration list. It lives in the URL query string
+// so a filtered view can be bookmarked or shared.
+
+export type PACSSortKey = 'name' | '-name' | 'created' | '-created';
+export type PACSGroupKey = 'none' | 'location';
+export type PACSViewMode = 'grid' | 'table';
+
+export interface PACSListFilters {
+  q: string;
+  tags: string[];
+  locations: string[];
+  sort: PACSSortKey;
+  group: PACSGroupKey;
+  view: PACSViewMode;
+}
+
+export const DEFAULT_PACS_FILTERS: PACSListFilters = {
+  q: '',
+  tags: [],
+  locations: [],
+  sort: 'name',
+  group: 'none',
+  view: 'grid',
+};
+
+export const SORT_OPTIONS: { value: PACSSortKey; label: string }[] = [
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: '-name', label: 'Name (Z–A)' },
+  { value: '-created', label: 'Newest first' },
+  { value: 'created', label: 'Oldest first' },
+];
+
+export const GROUP_OPTIONS: { value: PACSGroupKey; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'location', label: 'Group by location' },
+];
+
+const oneOf = <T extends string>(value: string | null, options: { value: T }[], fallback: T): T => {
+  return options.some(o => o.value === value) ? (value as T) : fallback;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): PACSListFilters => {
+  return {
+    q: params.get('q') ?? '',
+    tags: params.getAll('tag'),
+    locations: params.getAll('location'),
+    sort: oneOf(params.get('sort'), SORT_OPTIONS, DEFAULT_PACS_FILTERS.sort),
+    group: oneOf(params.get('group'), GROUP_OPTIONS, DEFAULT_PACS_FILTERS.group),
+    view: params.get('view') === 'table' ? 'table' : 'grid',
+  };
+};
+
+// Defaults are left out so the plain /pacs URL stays clean.
+export const filtersToSearchParams = (filters: PACSListFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q);
+  filters.tags.forEach(tag => params.append('tag', tag));
+  filters.locations.forEach(location => params.append('location', location));
+  if (filters.sort !== DEFAULT_PACS_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.group !== DEFAULT_PACS_FILTERS.group) params.set('group', filters.group);
+  if (filters.view !== DEFAULT_PACS_FILTERS.view) params.set('view', filters.view);
+  return params;
+};
+
+export const hasActiveFilters = (filters: PACSListFilters): boolean => {
+  return !!filters.q.trim() || filters.tags.length > 0 || filters.locations.length > 0;
+};
+
+// Search matches display_name or base_rs; a config must carry any of the
+// selected tags and be at any of the selected locations.
+export const filterConfigurations = (configs: PACSConfiguration[], filters: PACSListFilters): PACSConfiguration[] => {
+  const query = filters.q.trim().toLowerCase();
+  return configs.filter(
+    c =>
+      (!query || c.display_name.toLowerCase().includes(query) || c.base_rs.toLowerCase().includes(query)) &&
+      (filters.tags.length === 0 || (c.tags ?? []).some(t => filters.tags.includes(t))) &&
+      (filters.locations.length === 0 || (!!c.location && filters.locations.includes(c.location)))
+  );
+};
+
+// Configurations without created_at sort after dated ones in either direction.
+export const sortConfigurations = (configs: PACSConfiguration[], sort: PACSSortKey): PACSConfiguration[] => {
+  const direction = sort.startsWith('-') ? -1 : 1;
+  const byName = (a: PACSConfiguration, b: PACSConfiguration) =>
+    a.display_name.localeCompare(b.display_name, undefined, { sensitivity: 'base' });
+
+  return [...configs].sort((a, b) => {
+    if (sort === 'name' || sort === '-name') return direction * byName(a, b);
+
+    const aTime = a.created_at ? Date.parse(a.created_at) : NaN;
+    const bTime = b.created_at ? Date.parse(b.created_at) : NaN;
+    if (Number.isNaN(aTime) || Number.isNaN(bTime)) {
+      return Number.isNaN(aTime) === Number.isNaN(bTime) ? byName(a, b) : Number.isNaN(aTime) ? 1 : -1;
+    }
+    return direction * (aTime - bTime) || byName(a, b);
+  });
+};
+
+export interface PACSConfigGroup {
+  key: string;
+  label: string | null;
+  configs: PACSConfiguration[];
+}
+
+// Groups keep the order of the sorted input; unlocated configs come last.
+export const groupConfigurations = (configs: PACSConfiguration[], group: PACSGroupKey): PACSConfigGroup[] => {
+  if (group === 'none') return [{ key: 'all', label: null, configs }];
+
+  const groups = new Map<string, PACSConfiguration[]>();
+  configs.forEach(config => {
+    const key = config.location?.trim() || '';
+    groups.set(key, [...(groups.get(key) ?? []), config]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (!a ? 1 : !b ? -1 : a.localeCompare(b)))
+    .map(([key, list]) => ({ key: key || '__none__', label: key || 'No location', configs: list }));
+};
+
+export const tagsOf = (configs: PACSConfiguration[]): string[] => {
+  return Array.from(new Set(configs.flatMap(c => c.tags ?? []))).sort();
+};
+
+export const locationsOf = (configs: PACSConfiguration[]): string[] => {
+  return Array.from(new Set(configs.map(c => c.location).filter((l): l is string => !!l))).sort();
+};
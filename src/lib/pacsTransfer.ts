@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { PACSConfiguration, PACSConfigurationInput, PACSVendor } from '@/types';
+import {
+  buildHeaders,
+  getAuthScheme,
+  headerRowsFromRecord,
+  isCredentialHeader,
+  isPublicAuthField,
+  validateAuth,
+} from '@/lib/pacsAuth';
+import { isPacsVendor, validateVendorUrl } from '@/lib/pacsVendors';
+
+// Bulk import and export of PACS configurations. JSON files hold an array of
+// createConfiguration bodies; CSV files have one column per field, with tags
+// separated by semicolons and headers/auth written as JSON objects.
+
+export const CSV_COLUMNS = ['display_name', 'base_rs', 'location', 'tags', 'headers', 'auth', 'vendor'] as const;
+const CSV_TAG_SEPARATOR = ';';
+
+export interface PACSImportRow {
+  // 1-based position of the row among the file's records.
+  row: number;
+  displayName: string;
+  baseRs: string;
+  input?: PACSConfigurationInput;
+  errors: string[];
+  // Name of the existing configuration or earlier row with the same base_rs.
+  duplicateOf?: string;
+}
+
+const optionalText = z
+  .string({ invalid_type_error: 'must be text' })
+  .trim()
+  .nullish()
+  .transform(value => value || undefined);
+
+const stringRecord = z
+  .record(z.string({ invalid_type_error: 'values must be text' }), { invalid_type_error: 'must be an object' })
+  .nullish()
+  .transform(value => (value && Object.keys(value).length > 0 ? value : undefined));
+
+const configurationInputSchema = z
+  .object({
+    display_name: z.string({ required_error: 'Display name is required' }).trim().min(1, 'Display name is required'),
+    base_rs: z
+      .string({ required_error: 'Base RS URL is required' })
+      .trim()
+      .min(1, 'Base RS URL is required')
+      .url('Base RS URL must be a valid URL')
+      .regex(/^https?:\/\//i, 'Base RS URL must use http or https'),
+    vendor: z
+      .custom<PACSVendor>(value => value === '' || value == null || isPacsVendor(value), 'Unknown server type')
+      .transform(value => value || undefined),
+    location: optionalText,
+    headers: stringRecord,
+    auth: stringRecord,
+    tags: z
+      .array(z.string({ invalid_type_error: 'must be text' }).trim(), { invalid_type_error: 'must be a list' })
+      .nullish()
+      .transform(tags => Array.from(new Set((tags ?? []).filter(t => t.length > 0)))),
+  })
+  .superRefine((config, ctx) => {
+    const urlError = config.vendor && validateVendorUrl(config.vendor, config.base_rs);
+    if (urlError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['base_rs'], message: urlError });
+
+    const headersError = buildHeaders(headerRowsFromRecord(config.headers), getAuthScheme(config.auth)).error;
+    if (headersError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['headers'], message: headersError });
+
+    const authError = validateAuth(config.auth);
+    if (authError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['auth'], message: authError });
+  });
+
+const formatIssue = (issue: z.ZodIssue): string => {
+  // Our own messages already name the field; zod's type errors do not.
+  return issue.code === 'invalid_type' && issue.received !== 'undefined' && issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+};
+
+// base_rs values are compared without trailing slashes and case-insensitively.
+export const normalizeBaseRs = (baseRs: string): string => {
+  return baseRs.trim().replace(/\/+$/, '').toLowerCase();
+};
+
+// RFC 4180: quoted fields may contain separators, newlines and "" escapes.
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(cell => cell.trim().length > 0));
+};
+
+const parseJsonCell = (value: string, column: string): unknown => {
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${column}: not valid JSON`);
+  }
+};
+
+// Turns CSV rows into raw objects keyed by column. A cell that cannot be
+// decoded is reported through `parseError` instead of failing the whole file.
+const csvToRaw = (text: string): { values: Record<string, unknown>; parseError?: string }[] => {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const missing = ['display_name', 'base_rs'].filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`The CSV header is missing: ${missing.join(', ')}`);
+  }
+
+  return records.map(cells => {
+    const values: Record<string, unknown> = {};
+    try {
+      columns.forEach((column, i) => {
+        const cell = cells[i] ?? '';
+        if (column === 'tags') {
+          values.tags = cell.split(CSV_TAG_SEPARATOR);
+        } else if (column === 'headers' || column === 'auth') {
+          values[column] = parseJsonCell(cell, column);
+        } else if ((CSV_COLUMNS as readonly string[]).includes(column)) {
+          values[column] = cell;
+        }
+      });
+      return { values };
+    } catch (error) {
+      return { values, parseError: error instanceof Error ? error.message : 'Could not read this row' };
+    }
+  });
+};
+
+const jsonToRaw = (text: string): { values: Record<string, unknown>; parseError?: string }[] => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  // Accept a bare array or an object with a `configurations` array.
+  const items =
+    payload && typeof payload === 'object' && !Array.isArray(payload) && 'configurations' in payload
+      ? (payload as { configurations: unknown }).configurations
+      : payload;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of configurations');
+  }
+
+  return items.map(item =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? { values: item as Record<string, unknown> }
+      : { values: {}, parseError: 'Each entry must be an object' }
+  );
+};
+
+/**
+ * Parses an import file and validates every row against the create shape.
+ * Rows whose base_rs matches an existing configuration, or an earlier row in
+ * the same file, are flagged as duplicates. Throws when the file as a whole
+ * cannot be read.
+ */
+export const parseImportFile = (
+  fileName: string,
+  text: string,
+  existing: PACSConfiguration[]
+): PACSImportRow[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(content));
+  const raw = isJson ? jsonToRaw(content) : csvToRaw(content);
+
+  const seen = new Map<string, string>(existing.map(c => [normalizeBaseRs(c.base_rs), `"${c.display_name}"`]));
+
+  return raw.map(({ values, parseError }, i) => {
+    const row: PACSImportRow = {
+      row: i + 1,
+      displayName: typeof values.display_name === 'string' ? values.display_name.trim() : '',
+      baseRs: typeof values.base_rs === 'string' ? values.base_rs.trim() : '',
+      errors: [],
+    };
+
+    if (parseError) {
+      row.errors.push(parseError);
+    } else {
+      const validation = configurationInputSchema.safeParse(values);
+      if (validation.success) {
+        row.input = validation.data as PACSConfigurationInput;
+      } else {
+        row.errors = validation.error.errors.map(formatIssue);
+      }
+    }
+
+    if (row.baseRs) {
+      const key = normalizeBaseRs(row.baseRs);
+      if (seen.has(key)) {
+        row.duplicateOf = seen.get(key);
+      } else {
+        seen.set(key, `row ${row.row}`);
+      }
+    }
+    return row;
+  });
+};
+
+// The create body that reproduces a saved configuration (minus id/created_at).
+export const toConfigurationInput = (config: PACSConfiguration): PACSConfigurationInput => {
+  return {
+    display_name: config.display_name,
+    base_rs: config.base_rs,
+    vendor: config.vendor,
+    location: config.location || undefined,
+    tags: config.tags ?? [],
+    headers: config.headers && Object.keys(config.headers).length > 0 ? config.headers : undefined,
+    auth: config.auth && Object.keys(config.auth).length > 0 ? config.auth : undefined,
+  };
+};
+
+// Credentials are blanked rather than dropped so the file still shows which
+// values need to be filled in before it can be imported again.
+const toExportRecord = (config: PACSConfiguration, redact: boolean): PACSConfigurationInput => {
+  const record = toConfigurationInput(config);
+  if (!redact) return record;
+
+  const blank = (entries: Record<string, string> | undefined, keep: (key: string) => boolean) =>
+    entries && Object.fromEntries(Object.entries(entries).map(([key, value]) => [key, keep(key) ? value : '']));
+  return {
+    ...record,
+    headers: blank(record.headers, name => !isCredentialHeader(name)),
+    auth: blank(record.auth, key => isPublicAuthField(record.auth, key)),
+  };
+};
+
+export const exportConfigurationsJson = (configs: PACSConfiguration[], redact: boolean): string => {
+  return JSON.stringify(
+    configs.map(config => toExportRecord(config, redact)),
+    null,
+    2
+  );
+};
+
+const csvCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportConfigurationsCsv = (configs: PACSConfiguration[], redact: boolean): string => {
+  const rows = configs.map(config => {
+    const record = toExportRecord(config, redact);
+    return [
+      record.display_name,
+      record.base_rs,
+      record.location ?? '',
+      record.tags.join(CSV_TAG_SEPARATOR),
+      record.headers ? JSON.stringify(record.headers) : '',
+      record.auth ? JSON.stringify(record.auth) : '',
+      record.vendor ?? '',
+    ]
+      .map(csvCell)
+      .join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const downloadTextFile = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
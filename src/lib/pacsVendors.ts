@@ -0,0 +1,102 @@
+import { PACSAuthScheme, PACSVendor } from '@/types';
+
+// Presets for DICOMweb servers we see in practice. Templates use {name}
+// placeholders that must be replaced before the configuration is saved.
+
+export interface PACSVendorPreset {
+  value: PACSVendor;
+  label: string;
+  urlTemplate?: string;
+  // What a correct RS base URL for this vendor looks like.
+  urlPattern?: RegExp;
+  urlHint?: string;
+  defaultHeaders?: Record<string, string>;
+  authScheme: PACSAuthScheme;
+  // Non-secret auth values that are the same for every deployment.
+  authDefaults?: Record<string, string>;
+}
+
+export const PACS_VENDORS: PACSVendorPreset[] = [
+  {
+    value: 'generic',
+    label: 'Other DICOMweb server',
+    authScheme: 'none',
+  },
+  {
+    value: 'orthanc',
+    label: 'Orthanc',
+    urlTemplate: 'http://{host}:8042/dicom-web',
+    urlPattern: /^https?:\/\/[^/]+(\/.*)?\/dicom-web\/?$/i,
+    urlHint: 'Ends in /dicom-web, e.g. http://host:8042/dicom-web',
+    authScheme: 'basic',
+  },
+  {
+    value: 'dcm4chee',
+    label: 'dcm4chee-arc',
+    urlTemplate: 'http://{host}:8080/dcm4chee-arc/aets/{AET}/rs',
+    urlPattern: /^https?:\/\/[^/]+\/dcm4chee-arc\/aets\/[^/]+\/rs\/?$/i,
+    urlHint: 'Points at an AE title, e.g. http://host:8080/dcm4chee-arc/aets/DCM4CHEE/rs',
+    authScheme: 'none',
+  },
+  {
+    value: 'google_healthcare',
+    label: 'Google Cloud Healthcare API',
+    urlTemplate:
+      'https://healthcare.googleapis.com/v1/projects/{project}/locations/{location}/datasets/{dataset}/dicomStores/{store}/dicomWeb',
+    urlPattern:
+      /^https:\/\/healthcare\.googleapis\.com\/v1(beta1)?\/projects\/[^/]+\/locations\/[^/]+\/datasets\/[^/]+\/dicomStores\/[^/]+\/dicomWeb\/?$/,
+    urlHint: 'A DICOM store, ending in /dicomStores/{store}/dicomWeb',
+    defaultHeaders: { 'X-Goog-User-Project': '{project}' },
+    authScheme: 'bearer',
+  },
+  {
+    value: 'azure_dicom',
+    label: 'Azure Health Data Services DICOM',
+    urlTemplate: 'https://{workspace}-{service}.dicom.azurehealthcareapis.com/v2',
+    urlPattern: /^https:\/\/[^/]+\.dicom\.azurehealthcareapis\.com\/v\d+\/?$/i,
+    urlHint: 'The service URL with its API version, e.g. https://ws-dicom.dicom.azurehealthcareapis.com/v2',
+    authScheme: 'oauth2_client_credentials',
+    authDefaults: {
+      token_url: 'https://login.microsoftonline.com/{tenant}/oauth2/v2.0/token',
+      scope: 'https://dicom.healthcareapis.azure.com/.default',
+    },
+  },
+  {
+    value: 'dicoogle',
+    label: 'Dicoogle',
+    urlTemplate: 'http://{host}:8080/dicom-web',
+    urlPattern: /^https?:\/\/[^/]+(\/.*)?\/dicom-web\/?$/i,
+    urlHint: 'Ends in /dicom-web, e.g. http://host:8080/dicom-web',
+    authScheme: 'none',
+  },
+];
+
+const PLACEHOLDER = /\{[^}]+\}/;
+
+export const getVendor = (value?: string | null): PACSVendorPreset => {
+  return PACS_VENDORS.find(v => v.value === value) ?? PACS_VENDORS[0];
+};
+
+export const isPacsVendor = (value: unknown): value is PACSVendor => {
+  return PACS_VENDORS.some(v => v.value === value);
+};
+
+// Checks a base URL against the vendor's expected shape. Unreplaced template
+// placeholders are always an error, whatever the vendor.
+export const validateVendorUrl = (vendor: PACSVendor | undefined, baseRs: string): string | null => {
+  const url = baseRs.trim();
+  const placeholder = url.match(PLACEHOLDER);
+  if (placeholder) return `Replace ${placeholder[0]} in the Base RS URL`;
+
+  const preset = getVendor(vendor);
+  if (preset.urlPattern && !preset.urlPattern.test(url)) {
+    return `This doesn't match the usual ${preset.label} URL format. ${preset.urlHint}.`;
+  }
+  return null;
+};
+
+// The first key of a header or auth record whose value still holds a
+// template placeholder.
+export const unfilledTemplateKey = (values?: Record<string, string> | null): string | null => {
+  return Object.entries(values ?? {}).find(([, value]) => PLACEHOLDER.test(value))?.[0] ?? null;
+};
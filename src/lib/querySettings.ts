@@ -0,0 +1,44 @@
+import { ChatQuerySettings } from '@/types';
+
+const QUERY_SETTINGS_KEY = 'medchat_query_settings';
+
+export const DEFAULT_QUERY_SETTINGS: ChatQuerySettings = {
+  max_studies_per_pacs: 25,
+  max_total_studies: 50,
+  return_evaluation: false,
+};
+
+export const QUERY_LIMITS = {
+  max_studies_per_pacs: { min: 1, max: 200 },
+  max_total_studies: { min: 1, max: 1000 },
+} as const;
+
+const clampLimit = (key: keyof typeof QUERY_LIMITS, value: unknown): number => {
+  const { min, max } = QUERY_LIMITS[key];
+  const parsed = Math.round(Number(value));
+  if (!Number.isFinite(parsed)) return DEFAULT_QUERY_SETTINGS[key];
+  return Math.min(max, Math.max(min, parsed));
+};
+
+export const normalizeQuerySettings = (settings: Partial<ChatQuerySettings> | null | undefined): ChatQuerySettings => {
+  return {
+    max_studies_per_pacs: clampLimit('max_studies_per_pacs', settings?.max_studies_per_pacs),
+    max_total_studies: clampLimit('max_total_studies', settings?.max_total_studies),
+    return_evaluation: settings?.return_evaluation ?? DEFAULT_QUERY_SETTINGS.return_evaluation,
+  };
+};
+
+export const loadQuerySettings = (userId: string): ChatQuerySettings => {
+  const stored = localStorage.getItem(`${QUERY_SETTINGS_KEY}:${userId}`);
+  if (!stored) return DEFAULT_QUERY_SETTINGS;
+
+  try {
+    return normalizeQuerySettings(JSON.parse(stored));
+  } catch {
+    return DEFAULT_QUERY_SETTINGS;
+  }
+};
+
+export const saveQuerySettings = (userId: string, settings: ChatQuerySettings) => {
+  localStorage.setItem(`${QUERY_SETTINGS_KEY}:${userId}`, JSON.stringify(settings));
+};
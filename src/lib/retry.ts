@@ -0,0 +1,136 @@
+import { isAbortError } from '@/lib/apiErrors';
+
+// Retrying of API requests that failed on the way (dropped connections,
+// gateway errors, rate limits). Whether a request may be sent again depends
+// on its method and endpoint; see RETRY_RULES.
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export interface RetryPolicy {
+  // Attempts after the first one; 0 sends the request once.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Responses with these statuses are retried. Network failures always are,
+  // timeouts and cancellations never.
+  retryStatuses: number[];
+}
+
+interface RetryRule {
+  method: string;
+  path: RegExp;
+  policy: Partial<RetryPolicy> | ((headers: Headers) => Partial<RetryPolicy>);
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryStatuses: [408, 429, 502, 503, 504],
+};
+
+// A Retry-After longer than this is not waited out; the response is returned.
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// First match wins. Requests no rule matches are retried only when their
+// method is idempotent.
+export const RETRY_RULES: RetryRule[] = [
+  // The agent may already be working on a prompt whose response was lost, so
+  // a chat message is only re-sent when the backend can de-duplicate it.
+  {
+    method: 'POST',
+    path: /^\/agent\/chat$/,
+    policy: headers => (headers.has(IDEMPOTENCY_KEY_HEADER) ? {} : { retries: 0 }),
+  },
+  // Connection tests only read from the PACS. Capability probes are left
+  // out: they may send a STOW request when the user asks for one.
+  { method: 'POST', path: /^\/pacs\/([^/]+\/)?test$/, policy: { retries: 1 } },
+];
+
+export const retryPolicyFor = (method: string, path: string, headers: Headers): RetryPolicy => {
+  const upper = method.toUpperCase();
+  const rule = RETRY_RULES.find(r => r.method === upper && r.path.test(path));
+  if (rule) {
+    return { ...DEFAULT_RETRY_POLICY, ...(typeof rule.policy === 'function' ? rule.policy(headers) : rule.policy) };
+  }
+  return IDEMPOTENT_METHODS.includes(upper) ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, retries: 0 };
+};
+
+// Exponential backoff with jitter: somewhere in the upper half of the
+// doubled delay, so clients that failed together do not retry together.
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+};
+
+// Retry-After holds either seconds or an HTTP date.
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | null => {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const id = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(id);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Development builds only.
+const logRetry = (method: string, path: string, reason: string, attempt: number, policy: RetryPolicy, delayMs: number) => {
+  if (!import.meta.env.DEV) return;
+  console.debug(`[api] ${method} ${path} ${reason}; retry ${attempt}/${policy.retries} in ${Math.round(delayMs)}ms`);
+};
+
+/**
+ * Calls `send` until it gets a response worth returning or the policy for
+ * this method and path runs out of retries. The last response or error is
+ * passed on unchanged.
+ */
+export const fetchWithRetry = async (
+  path: string,
+  init: RequestInit,
+  send: () => Promise<Response>
+): Promise<Response> => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const policy = retryPolicyFor(method, path, new Headers(init.headers));
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      if (attempt >= policy.retries || isAbortError(error) || init.signal?.aborted) throw error;
+      const delayMs = backoffDelay(attempt, policy);
+      logRetry(method, path, 'failed to connect', attempt + 1, policy, delayMs);
+      await sleep(delayMs, init.signal);
+      continue;
+    }
+
+    if (attempt >= policy.retries || !policy.retryStatuses.includes(response.status)) return response;
+
+    const retryAfter =
+      response.status === 429 || response.status === 503 ? parseRetryAfter(response.headers.get('retry-after')) : null;
+    if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) return response;
+
+    const delayMs = retryAfter ?? backoffDelay(attempt, policy);
+    logRetry(method, path, `got HTTP ${response.status}`, attempt + 1, policy, delayMs);
+    response.body?.cancel().catch(() => undefined);
+    await sleep(delayMs, init.signal);
+  }
+};
@@ -0,0 +1,127 @@
+import { PACSConfiguration, PACSTagColor, PACSTagMeta } from '@/types';
+
+// Colours and descriptions for PACS tags. Tags themselves live on the
+// configurations; this metadata is kept on this device, per user as
+// `${TAG_META_KEY}:${userId}`.
+const TAG_META_KEY = 'medchat_pacs_tag_meta';
+
+const scopedKey = (userId: string) => `${TAG_META_KEY}:${userId}`;
+
+export const TAG_META_UPDATED_EVENT = 'medchat:pacs-tag-meta-updated';
+
+// Full class names so Tailwind keeps them in the build.
+export const TAG_COLORS: Record<PACSTagColor, { label: string; swatch: string; badge: string }> = {
+  gray: {
+    label: 'Gray',
+    swatch: 'bg-slate-400',
+    badge: 'border-slate-500/30 bg-slate-500/15 text-slate-700 dark:text-slate-300',
+  },
+  red: { label: 'Red', swatch: 'bg-red-500', badge: 'border-red-500/30 bg-red-500/15 text-red-700 dark:text-red-300' },
+  orange: {
+    label: 'Orange',
+    swatch: 'bg-orange-500',
+    badge: 'border-orange-500/30 bg-orange-500/15 text-orange-700 dark:text-orange-300',
+  },
+  amber: {
+    label: 'Amber',
+    swatch: 'bg-amber-500',
+    badge: 'border-amber-500/30 bg-amber-500/15 text-amber-700 dark:text-amber-300',
+  },
+  green: {
+    label: 'Green',
+    swatch: 'bg-green-500',
+    badge: 'border-green-500/30 bg-green-500/15 text-green-700 dark:text-green-300',
+  },
+  teal: {
+    label: 'Teal',
+    swatch: 'bg-teal-500',
+    badge: 'border-teal-500/30 bg-teal-500/15 text-teal-700 dark:text-teal-300',
+  },
+  blue: {
+    label: 'Blue',
+    swatch: 'bg-blue-500',
+    badge: 'border-blue-500/30 bg-blue-500/15 text-blue-700 dark:text-blue-300',
+  },
+  violet: {
+    label: 'Violet',
+    swatch: 'bg-violet-500',
+    badge: 'border-violet-500/30 bg-violet-500/15 text-violet-700 dark:text-violet-300',
+  },
+  pink: {
+    label: 'Pink',
+    swatch: 'bg-pink-500',
+    badge: 'border-pink-500/30 bg-pink-500/15 text-pink-700 dark:text-pink-300',
+  },
+};
+
+export const loadTagMeta = (userId: string): Record<string, PACSTagMeta> => {
+  const stored = localStorage.getItem(scopedKey(userId));
+  if (!stored) return {};
+
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveAll = (userId: string, all: Record<string, PACSTagMeta>) => {
+  localStorage.setItem(scopedKey(userId), JSON.stringify(all));
+  window.dispatchEvent(new Event(TAG_META_UPDATED_EVENT));
+};
+
+// Empty metadata is removed rather than stored.
+export const saveTagMeta = (userId: string, tag: string, meta: PACSTagMeta) => {
+  const all = loadTagMeta(userId);
+  const description = meta.description?.trim();
+  if (!meta.color && !description) {
+    delete all[tag];
+  } else {
+    all[tag] = { color: meta.color, description: description || undefined };
+  }
+  saveAll(userId, all);
+};
+
+/**
+ * Moves metadata from renamed or merged tags onto the target. The target
+ * keeps its own metadata; otherwise it inherits the first source's.
+ */
+export const renameTagMeta = (userId: string, from: string[], to: string) => {
+  const all = loadTagMeta(userId);
+  const inherited = from.map(tag => all[tag]).find(Boolean);
+  from.filter(tag => tag !== to).forEach(tag => delete all[tag]);
+  if (!all[to] && inherited) all[to] = inherited;
+  saveAll(userId, all);
+};
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Tags in use with how many configurations carry each, most used first.
+export const tagUsage = (configs: PACSConfiguration[]): TagUsage[] => {
+  const counts = new Map<string, number>();
+  configs.forEach(config => {
+    new Set(config.tags ?? []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// "CT", "ct" and "c.t." share a key; used to suggest merges.
+export const tagKey = (tag: string): string => {
+  return tag.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+// Groups of two or more tags in use that differ only in case or punctuation.
+export const similarTagGroups = (tags: string[]): string[][] => {
+  const groups = new Map<string, string[]>();
+  tags.forEach(tag => {
+    const key = tagKey(tag);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), tag]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
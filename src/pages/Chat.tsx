@@ -1,32 +1,69 @@
 import { useState, useRef, useEffect } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import MarkdownContent from '@/components/MarkdownContent';
+import EvaluationPanel from '@/components/EvaluationPanel';
+import QuerySettingsPanel from '@/components/QuerySettingsPanel';
+import PacsSelector from '@/components/PacsSelector';
 import { chatAPI } from '@/lib/api';
-import { ChatMessage } from '@/types';
-import { Send, Bot, User, MessageSquare, Loader2, Trash2 } from 'lucide-react';
+import { buildChatHistory } from '@/lib/chatContext';
+import { ChatMessage, ChatPacsScope, ChatQuerySettings } from '@/types';
+import { useConversations } from '@/hooks/use-conversations';
+import { Send, Bot, User, MessageSquare, Loader2, Trash2, Square, Ban, AlertTriangle, Pencil, Pin, PinOff, Plus, SlidersHorizontal, Server } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useQuerySettings } from '@/hooks/use-query-settings';
+import { usePacsConfigurations } from '@/hooks/use-pacs-configurations';
 
-const MESSAGES_KEY = 'medchat_messages';
+const NO_MESSAGES: ChatMessage[] = [];
 
 const Chat = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const { conversationId } = useParams<{ conversationId?: string }>();
+  const navigate = useNavigate();
+  const {
+    getConversation,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+    togglePinned,
+    setServerConversationId,
+    setConversationQuerySettings,
+    updateMessages,
+  } = useConversations();
+  const conversation = conversationId ? getConversation(conversationId) : undefined;
+  const messages = conversation?.messages ?? NO_MESSAGES;
+  const { settings: defaultQuerySettings, updateSettings: updateDefaultQuerySettings } = useQuerySettings();
+  const { data: pacsConfigs } = usePacsConfigurations();
+  const querySettings = conversation?.querySettings ?? defaultQuerySettings;
+
   const [inputMessage, setInputMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  // Conversations with a reply in flight, each with its own controller.
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const isLoading = !!conversation && pendingIds.includes(conversation.id);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [selectedPacsIds, setSelectedPacsIds] = useState<string[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const controllersRef = useRef<Record<string, AbortController>>({});
   const { toast } = useToast();
 
+  // Selections pointing at configurations that no longer exist are ignored.
+  const pacsScope: ChatPacsScope[] = (pacsConfigs ?? [])
+    .filter(c => selectedPacsIds.includes(c.id))
+    .map(c => ({ id: c.id, display_name: c.display_name }));
+
   useEffect(() => {
-    const stored = localStorage.getItem(MESSAGES_KEY);
-    if (stored) {
-      setMessages(JSON.parse(stored));
-    }
+    const controllers = controllersRef.current;
+    return () => Object.values(controllers).forEach(controller => controller.abort());
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(MESSAGES_KEY, JSON.stringify(messages));
-  }, [messages]);
+    setIsRenaming(false);
+  }, [conversationId]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -34,15 +71,47 @@ const Chat = () => {
     }
   }, [messages]);
 
-  const clearChat = () => {
-    setMessages([]);
-    localStorage.removeItem(MESSAGES_KEY);
+  const handleQuerySettingsChange = (settings: ChatQuerySettings) => {
+    if (conversation?.querySettings) {
+      setConversationQuerySettings(conversation.id, settings);
+    } else {
+      updateDefaultQuerySettings(settings);
+    }
+  };
+
+  const handleConversationOverrideChange = (enabled: boolean) => {
+    if (!conversation) return;
+    setConversationQuerySettings(conversation.id, enabled ? querySettings : undefined);
+  };
+
+  const startRename = () => {
+    if (!conversation) return;
+    setTitleDraft(conversation.title);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (conversation) {
+      renameConversation(conversation.id, titleDraft);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleDeleteConversation = () => {
+    if (!conversation) return;
+    controllersRef.current[conversation.id]?.abort();
+    deleteConversation(conversation.id);
+    navigate('/chat', { replace: true });
     toast({
-      title: 'Chat cleared',
-      description: 'All messages have been removed.',
+      title: 'Conversation deleted',
+      description: `"${conversation.title}" has been removed.`,
     });
   };
 
+  const stopMessage = () => {
+    if (conversation) controllersRef.current[conversation.id]?.abort();
+  };
+
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
 
@@ -51,62 +120,157 @@ const Chat = () => {
       role: 'user',
       content: inputMessage,
       timestamp: Date.now(),
+      pacsScope: pacsScope.length > 0 ? pacsScope : undefined,
+    };
+
+    const assistantId = crypto.randomUUID();
+    const assistantMessage: ChatMessage = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      status: 'streaming',
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    // Replies are written to the thread they were sent from, even if the
+    // user switches to another conversation while this one is streaming.
+    let targetId = conversation?.id;
+    if (!targetId) {
+      targetId = createConversation().id;
+      navigate(`/chat/${targetId}`, { replace: true });
+    }
+
+    // A thread the backend already tracks only needs its id; otherwise the
+    // recent turns travel with the prompt.
+    const serverConversationId = conversation?.serverConversationId;
+    const history = serverConversationId ? undefined : buildChatHistory(messages);
+
+    const controller = new AbortController();
+    controllersRef.current[targetId] = controller;
+
+    updateMessages(targetId, prev => [...prev, userMessage, assistantMessage]);
     setInputMessage('');
-    setIsLoading(true);
+    setPendingIds(prev => [...prev, targetId]);
+
+    const updateAssistant = (update: (message: ChatMessage) => ChatMessage) => {
+      updateMessages(targetId, prev => prev.map(m => (m.id === assistantId ? update(m) : m)));
+    };
+    // A reply that failed part way keeps what was streamed; an empty one is
+    // dropped.
+    const failAssistant = () => {
+      updateMessages(targetId, prev =>
+        prev.flatMap(m =>
+          m.id !== assistantId ? [m] : m.content ? [{ ...m, status: 'interrupted' as const, timestamp: Date.now() }] : []
+        )
+      );
+    };
 
     try {
-      const result = await chatAPI.sendMessage({
-        prompt: inputMessage,
-        max_studies_per_pacs: 25,
-        max_total_studies: 50,
-        return_evaluation: false,
-      });
-      
+      const result = await chatAPI.sendMessage(
+        {
+          prompt: inputMessage,
+          history: history?.length ? history : undefined,
+          conversation_id: serverConversationId,
+          pacs_ids: pacsScope.length > 0 ? pacsScope.map(p => p.id) : undefined,
+          ...querySettings,
+        },
+        {
+          onChunk: (delta) => updateAssistant(m => ({ ...m, content: m.content + delta })),
+          signal: controller.signal,
+        }
+      );
+
       if (result.response) {
-        const assistantMessage: ChatMessage = {
-          id: crypto.randomUUID(),
-          role: 'assistant',
-          content: result.response,
-          timestamp: Date.now(),
-        };
-        setMessages(prev => [...prev, assistantMessage]);
+        const content = result.response;
+        const evaluation = result.evaluation;
+        updateAssistant(m => ({ ...m, content, evaluation, status: undefined, timestamp: Date.now() }));
+        if (result.conversationId && result.conversationId !== serverConversationId) {
+          setServerConversationId(targetId, result.conversationId);
+        }
+      } else if (result.cancelled) {
+        // Keep whatever was streamed so far and mark the turn as stopped.
+        updateAssistant(m => ({ ...m, status: 'cancelled', timestamp: Date.now() }));
       } else {
+        failAssistant();
         toast({
           title: 'Error',
-          description: result.error || 'Failed to get response',
+          description: result.error?.message || 'Failed to get response',
           variant: 'destructive',
         });
       }
     } catch (error) {
+      failAssistant();
       toast({
         title: 'Error',
         description: 'Failed to send message. Please try again.',
         variant: 'destructive',
       });
     } finally {
-      setIsLoading(false);
+      if (controllersRef.current[targetId] === controller) {
+        delete controllersRef.current[targetId];
+      }
+      setPendingIds(prev => prev.filter(id => id !== targetId));
     }
   };
 
+  if (conversationId && !conversation) {
+    return <Navigate to="/chat" replace />;
+  }
+
   return (
     <div className="flex flex-col h-screen">
       {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-card/50">
-        <div className="flex items-center gap-2">
-          <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border bg-card/50">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
             <MessageSquare className="w-4 h-4 text-primary" />
           </div>
-          <h1 className="font-semibold text-foreground">Chat</h1>
+          {isRenaming ? (
+            <Input
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setIsRenaming(false);
+              }}
+              className="h-8 max-w-xs"
+              autoFocus
+            />
+          ) : (
+            <h1 className="font-semibold text-foreground truncate">{conversation?.title ?? 'Chat'}</h1>
+          )}
         </div>
-        {messages.length > 0 && (
-          <Button variant="ghost" size="sm" onClick={clearChat} className="text-muted-foreground hover:text-destructive">
-            <Trash2 className="w-4 h-4 mr-2" />
-            Clear Chat
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {conversation && (
+            <>
+              <Button variant="ghost" size="icon" onClick={startRename} title="Rename conversation">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => togglePinned(conversation.id)}
+                title={conversation.pinned ? 'Unpin conversation' : 'Pin conversation'}
+              >
+                {conversation.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleDeleteConversation}
+                className="text-muted-foreground hover:text-destructive"
+                title="Delete conversation"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => navigate('/chat')} disabled={!conversation}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Chat
           </Button>
-        )}
+        </div>
       </div>
 
       {/* Messages */}
@@ -134,7 +298,49 @@ const Chat = () => {
                     : "bg-card border border-border rounded-bl-md"
                 )}
               >
-                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                {message.status === 'streaming' && !message.content ? (
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                    <span className="text-sm text-muted-foreground">Thinking...</span>
+                  </div>
+                ) : message.role === 'assistant' ? (
+                  message.content && (
+                    <>
+                      <MarkdownContent content={message.content} className="text-sm" />
+                      {message.status === 'streaming' && (
+                        <span className="inline-block w-1.5 h-4 align-text-bottom bg-primary/60 animate-pulse" />
+                      )}
+                    </>
+                  )
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                )}
+                {message.pacsScope && message.pacsScope.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {message.pacsScope.map(pacs => (
+                      <span
+                        key={pacs.id}
+                        className="inline-flex items-center gap-1 rounded-full bg-primary-foreground/15 px-2 py-0.5 text-[11px]"
+                      >
+                        <Server className="w-3 h-3" />
+                        {pacs.display_name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {message.evaluation && <EvaluationPanel evaluation={message.evaluation} />}
+                {message.status === 'cancelled' && (
+                  <div className={cn("flex items-center gap-1.5 text-xs text-muted-foreground", message.content && "mt-2")}>
+                    <Ban className="w-3 h-3" />
+                    <span>{message.content ? 'Stopped' : 'Cancelled before a response was received'}</span>
+                  </div>
+                )}
+                {message.status === 'interrupted' && (
+                  <div className="flex items-center gap-1.5 mt-2 text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3" />
+                    <span>Interrupted; the rest of the response was not received</span>
+                  </div>
+                )}
               </div>
               {message.role === 'user' && (
                 <div className="w-8 h-8 rounded-lg bg-secondary flex items-center justify-center flex-shrink-0">
@@ -143,19 +349,6 @@ const Chat = () => {
               )}
             </div>
           ))}
-          {isLoading && (
-            <div className="flex gap-3 animate-fade-in">
-              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
-                <Bot className="w-4 h-4 text-primary" />
-              </div>
-              <div className="bg-card border border-border rounded-2xl rounded-bl-md px-4 py-3">
-                <div className="flex items-center gap-2">
-                  <Loader2 className="w-4 h-4 animate-spin text-primary" />
-                  <span className="text-sm text-muted-foreground">Thinking...</span>
-                </div>
-              </div>
-            </div>
-          )}
           {messages.length === 0 && (
             <div className="flex flex-col items-center justify-center h-[60vh] text-center">
               <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
@@ -172,19 +365,53 @@ const Chat = () => {
 
       {/* Input Area */}
       <div className="border-t border-border p-4 bg-card/50">
-        <div className="max-w-3xl mx-auto flex gap-2">
-          <Input
-            value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
-            placeholder="Type your message..."
-            disabled={isLoading}
-            className="flex-1"
-          />
-          <Button onClick={handleSendMessage} disabled={isLoading || !inputMessage.trim()}>
-            <Send className="w-4 h-4" />
-          </Button>
-        </div>
+        <Collapsible open={isSettingsOpen} onOpenChange={setIsSettingsOpen} className="max-w-3xl mx-auto space-y-3">
+          <CollapsibleContent>
+            <QuerySettingsPanel
+              settings={querySettings}
+              onChange={handleQuerySettingsChange}
+              isConversationOverride={!!conversation?.querySettings}
+              onConversationOverrideChange={conversation ? handleConversationOverrideChange : undefined}
+              pacsCount={pacsScope.length || pacsConfigs?.length}
+              disabled={isLoading}
+            />
+          </CollapsibleContent>
+          <div className="flex gap-2">
+            <CollapsibleTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Query settings"
+                className={cn(isSettingsOpen && "bg-accent text-accent-foreground")}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <PacsSelector
+              configs={pacsConfigs ?? []}
+              selectedIds={selectedPacsIds}
+              onChange={setSelectedPacsIds}
+              disabled={isLoading}
+            />
+            <Input
+              value={inputMessage}
+              onChange={(e) => setInputMessage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
+              placeholder="Type your message..."
+              disabled={isLoading}
+              className="flex-1"
+            />
+            {isLoading ? (
+              <Button variant="outline" onClick={stopMessage} title="Stop generating">
+                <Square className="w-4 h-4 fill-current" />
+              </Button>
+            ) : (
+              <Button onClick={handleSendMessage} disabled={!inputMessage.trim()}>
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </Collapsible>
       </div>
     </div>
   );
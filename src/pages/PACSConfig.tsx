@@ -1,109 +1,207 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import PACSConfigDialog from '@/components/PACSConfigDialog';
+import PACSImportDialog from '@/components/PACSImportDialog';
+import PACSDeleteDialog from '@/components/PACSDeleteDialog';
+import PACSBatchDialog, { PACSBatchKind } from '@/components/PACSBatchDialog';
+import PACSBulkActionBar from '@/components/PACSBulkActionBar';
+import PACSConfigCard from '@/components/PACSConfigCard';
+import PACSConfigTable from '@/components/PACSConfigTable';
+import PACSListToolbar from '@/components/PACSListToolbar';
 import { pacsAPI } from '@/lib/api';
-import { PACSConfiguration } from '@/types';
-import { Plus, Trash2, Server, MapPin, Tag, Globe, Settings, Loader2 } from 'lucide-react';
+import { CapabilityProbeOptions } from '@/lib/dicomweb';
+import {
+  filterConfigurations,
+  groupConfigurations,
+  hasActiveFilters,
+  locationsOf,
+  sortConfigurations,
+  tagsOf,
+} from '@/lib/pacsFilters';
+import {
+  downloadTextFile,
+  exportConfigurationsCsv,
+  exportConfigurationsJson,
+  toConfigurationInput,
+} from '@/lib/pacsTransfer';
+import { PACSBatchResult } from '@/lib/pacsBatch';
+import { usePacsLatestHealth, useRecordHealthChecks } from '@/hooks/use-pacs-health';
+import { usePacsFilters } from '@/hooks/use-pacs-filters';
+import { usePacsCapabilities } from '@/hooks/use-pacs-capabilities';
+import {
+  isOptimisticConfiguration,
+  useCreatePacsConfiguration,
+  useDeletePacsConfiguration,
+  usePacsConfigurations,
+} from '@/hooks/use-pacs-configurations';
+import { PACSConfiguration, PACSConnectionTestResult } from '@/types';
+import { Plus, Server, MapPin, Settings, Loader2, Upload, Download, SearchX } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { cn } from '@/lib/utils';
+
+// How long a deleted configuration can be restored from the toast.
+const UNDO_GRACE_MS = 10000;
+
+const NO_CONFIGURATIONS: PACSConfiguration[] = [];
 
 const PACSConfig = () => {
-  const [configurations, setConfigurations] = useState<PACSConfiguration[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: configurations = NO_CONFIGURATIONS, isLoading, error: loadError, refetch } = usePacsConfigurations();
+  const createConfiguration = useCreatePacsConfiguration();
+  const deleteConfiguration = useDeletePacsConfiguration();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    display_name: '',
-    base_rs: '',
-    location: '',
-    tags: '',
-  });
+  const [editingConfig, setEditingConfig] = useState<PACSConfiguration | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [redactAuth, setRedactAuth] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<PACSConfiguration | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, PACSConnectionTestResult>>({});
+  const [testingIds, setTestingIds] = useState<string[]>([]);
+  const [probingIds, setProbingIds] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batch, setBatch] = useState<{ kind: PACSBatchKind; configs: PACSConfiguration[] } | null>(null);
+  const latestHealth = usePacsLatestHealth(configurations.map(c => c.id));
+  const recordHealthChecks = useRecordHealthChecks();
+  const { filters, updateFilters } = usePacsFilters();
+  const { capabilities, saveCapabilities, pruneCapabilities } = usePacsCapabilities();
   const { toast } = useToast();
 
   useEffect(() => {
-    loadConfigurations();
-  }, []);
-
-  const loadConfigurations = async () => {
-    setIsLoading(true);
-    const result = await pacsAPI.getConfigurations();
-    if (result.configs) {
-      setConfigurations(result.configs);
-    } else {
+    if (loadError) {
       toast({
         title: 'Error',
-        description: result.error || 'Failed to load configurations',
+        description: loadError.message,
         variant: 'destructive',
       });
     }
-    setIsLoading(false);
+  }, [loadError, toast]);
+
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => configurations.some(c => c.id === id)));
+    if (configurations !== NO_CONFIGURATIONS) {
+      pruneCapabilities(configurations.map(c => c.id));
+    }
+  }, [configurations, pruneCapabilities]);
+
+  const openAddDialog = () => {
+    setEditingConfig(null);
+    setIsDialogOpen(true);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const openEditDialog = (config: PACSConfiguration) => {
+    setEditingConfig(config);
+    setIsDialogOpen(true);
+  };
 
-    if (!formData.display_name.trim() || !formData.base_rs.trim()) {
-      toast({
-        title: 'Validation Error',
-        description: 'Display Name and Base RS URL are required fields.',
-        variant: 'destructive',
-      });
-      return;
+  const handleExport = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadTextFile(
+        `pacs-configurations-${date}.json`,
+        exportConfigurationsJson(configurations, redactAuth),
+        'application/json'
+      );
+    } else {
+      downloadTextFile(
+        `pacs-configurations-${date}.csv`,
+        exportConfigurationsCsv(configurations, redactAuth),
+        'text/csv'
+      );
     }
+  };
 
-    const tags = formData.tags
-      .split(',')
-      .map(t => t.trim())
-      .filter(t => t.length > 0);
+  const openBatchDialog = (kind: PACSBatchKind) => {
+    setBatch({ kind, configs: configurations.filter(c => selectedIds.includes(c.id)) });
+  };
 
-    setIsSubmitting(true);
-    const result = await pacsAPI.createConfiguration({
-      display_name: formData.display_name.trim(),
-      base_rs: formData.base_rs.trim(),
-      location: formData.location.trim() || undefined,
-      tags,
-    });
-    setIsSubmitting(false);
+  // Failed items stay selected so the same action can be retried on them.
+  const handleBatchFinished = (results: PACSBatchResult[]) => {
+    setSelectedIds(results.filter(r => !r.ok).map(r => r.config.id));
+    refetch();
+  };
 
-    if (result.config) {
-      setFormData({ display_name: '', base_rs: '', location: '', tags: '' });
-      setIsDialogOpen(false);
-      loadConfigurations();
-      toast({
-        title: 'Configuration Added',
-        description: 'The PACS configuration has been saved successfully.',
-      });
-    } else {
-      toast({
-        title: 'Error',
-        description: result.error || 'Failed to create configuration',
-        variant: 'destructive',
-      });
+  const handleTest = async (config: PACSConfiguration) => {
+    setTestingIds(prev => [...prev, config.id]);
+    const result = await pacsAPI.testConnection(config);
+    setTestResults(prev => ({ ...prev, [config.id]: result }));
+    if (!result.error) {
+      recordHealthChecks([{ pacsId: config.id, result }]);
     }
+    setTestingIds(prev => prev.filter(id => id !== config.id));
   };
 
-  const handleDelete = async (id: string, name: string) => {
-    const result = await pacsAPI.deleteConfiguration(id);
-    if (result.success) {
-      loadConfigurations();
-      toast({
-        title: 'Configuration Deleted',
-        description: `"${name}" has been removed.`,
-      });
+  const handleProbe = async (config: PACSConfiguration, options?: CapabilityProbeOptions) => {
+    setProbingIds(prev => [...prev, config.id]);
+    const result = await pacsAPI.discoverCapabilities(config, options);
+    if (result.capabilities) {
+      saveCapabilities(result.capabilities);
     } else {
       toast({
-        title: 'Error',
-        description: result.error || 'Failed to delete configuration',
+        title: 'Capability check failed',
+        description: result.error.message,
         variant: 'destructive',
       });
     }
+    setProbingIds(prev => prev.filter(id => id !== config.id));
+  };
+
+  // Undo re-creates the configuration from the copy taken before deleting,
+  // so it comes back with a new id.
+  const handleUndoDelete = (config: PACSConfiguration, deletedAt: number) => {
+    if (Date.now() - deletedAt > UNDO_GRACE_MS) return;
+
+    createConfiguration.mutate(toConfigurationInput(config), {
+      onSuccess: restored =>
+        toast({
+          title: 'Configuration Restored',
+          description: `"${restored.display_name}" is back.`,
+        }),
+      onError: error =>
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to restore configuration',
+          variant: 'destructive',
+        }),
+    });
   };
 
+  // The card disappears straight away and comes back if the request fails.
+  const handleDelete = (config: PACSConfiguration) => {
+    setPendingDelete(null);
+    deleteConfiguration.mutate(config.id, {
+      onSuccess: () => {
+        const deletedAt = Date.now();
+        toast({
+          title: 'Configuration Deleted',
+          description: `"${config.display_name}" has been removed.`,
+          duration: UNDO_GRACE_MS,
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(config, deletedAt)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      },
+      onError: error =>
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to delete configuration',
+          variant: 'destructive',
+        }),
+    });
+  };
+
+  const visibleConfigs = sortConfigurations(filterConfigurations(configurations, filters), filters.sort);
+  const groups = groupConfigurations(visibleConfigs, filters.group);
+  const selectedCount = configurations.filter(c => selectedIds.includes(c.id)).length;
+
   return (
     <div className="h-screen flex flex-col">
       {/* Header */}
@@ -118,79 +216,59 @@ const PACSConfig = () => {
               <p className="text-sm text-muted-foreground">Manage your imaging server connections</p>
             </div>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Configuration
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-md">
-              <DialogHeader>
-                <DialogTitle>Add PACS Configuration</DialogTitle>
-                <DialogDescription>
-                  Enter the details for the new PACS server connection.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4 mt-4">
-                <div className="space-y-2">
-                  <Label htmlFor="display_name">Display Name *</Label>
-                  <Input
-                    id="display_name"
-                    placeholder="e.g., Hospital 1 – Mumbai PAC Server"
-                    value={formData.display_name}
-                    onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="base_rs">DICOMweb RS Base URL *</Label>
-                  <Input
-                    id="base_rs"
-                    placeholder="e.g., http://host:port/dcm4chee-arc/aets/DCM/rs"
-                    value={formData.base_rs}
-                    onChange={(e) => setFormData({ ...formData, base_rs: e.target.value })}
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="location">Location (Optional)</Label>
-                  <Input
-                    id="location"
-                    placeholder="e.g., Mumbai or Hyderabad"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="tags">Tags (Optional, comma-separated)</Label>
-                  <Input
-                    id="tags"
-                    placeholder="e.g., radiology, ct-scan, mri"
-                    value={formData.tags}
-                    onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div className="flex justify-end gap-2 pt-4">
-                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={isSubmitting}>
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Saving...
-                      </>
-                    ) : (
-                      'Save Configuration'
-                    )}
-                  </Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={configurations.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExport('json')}>Export as JSON</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('csv')}>Export as CSV</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={redactAuth}
+                  onCheckedChange={(checked) => setRedactAuth(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Redact credentials
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={openAddDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Configuration
+            </Button>
+          </div>
+          <PACSImportDialog
+            open={isImportOpen}
+            onOpenChange={setIsImportOpen}
+            existing={configurations}
+            onImported={() => refetch()}
+          />
+          <PACSConfigDialog
+            open={isDialogOpen}
+            onOpenChange={setIsDialogOpen}
+            config={editingConfig}
+            tagSuggestions={tagsOf(configurations)}
+          />
+          <PACSBatchDialog
+            kind={batch?.kind ?? null}
+            configs={batch?.configs ?? []}
+            onOpenChange={(open) => !open && setBatch(null)}
+            onFinished={handleBatchFinished}
+          />
+          <PACSDeleteDialog
+            config={pendingDelete}
+            onCancel={() => setPendingDelete(null)}
+            onConfirm={handleDelete}
+          />
         </div>
       </header>
 
@@ -211,72 +289,95 @@ const PACSConfig = () => {
               <p className="text-muted-foreground max-w-md mb-6">
                 You haven't added any PACS configurations yet. Add your first server connection to get started.
               </p>
-              <Button onClick={() => setIsDialogOpen(true)}>
+              <Button onClick={openAddDialog}>
                 <Plus className="w-4 h-4 mr-2" />
                 Add Your First Configuration
               </Button>
             </div>
           ) : (
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {configurations.map((config, index) => (
-                <Card
-                  key={config.id}
-                  className={cn(
-                    "group relative overflow-hidden border-border bg-card hover:border-primary/30 transition-all duration-300 animate-fade-in"
+            <>
+              <PACSListToolbar
+                filters={filters}
+                onChange={updateFilters}
+                tags={tagsOf(configurations)}
+                locations={locationsOf(configurations)}
+              />
+              {selectedCount > 0 && (
+                <PACSBulkActionBar
+                  selectedCount={selectedCount}
+                  visibleCount={visibleConfigs.length}
+                  onSelectAll={() => {
+                    const ids = visibleConfigs.filter(c => !isOptimisticConfiguration(c)).map(c => c.id);
+                    setSelectedIds(Array.from(new Set([...selectedIds, ...ids])));
+                  }}
+                  onClear={() => setSelectedIds([])}
+                  onAction={openBatchDialog}
+                />
+              )}
+              {visibleConfigs.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 text-center">
+                  <SearchX className="w-8 h-8 text-muted-foreground mb-3" />
+                  <p className="text-muted-foreground mb-4">No configurations match these filters.</p>
+                  {hasActiveFilters(filters) && (
+                    <Button variant="outline" onClick={() => updateFilters({ q: '', tags: [], locations: [] })}>
+                      Clear Filters
+                    </Button>
                   )}
-                  style={{ animationDelay: `${index * 100}ms` }}
-                >
-                  <div className="absolute inset-0 bg-gradient-to-br from-primary/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
-                  <CardHeader className="pb-3">
-                    <div className="flex items-start justify-between">
-                      <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                          <Server className="w-5 h-5 text-primary" />
-                        </div>
-                        <div>
-                          <CardTitle className="text-base">{config.display_name}</CardTitle>
-                          {config.created_at && (
-                            <CardDescription className="text-xs">
-                              Added {new Date(config.created_at).toLocaleDateString()}
-                            </CardDescription>
-                          )}
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {groups.map(group => (
+                    <section key={group.key} className="space-y-3">
+                      {group.label && (
+                        <h2 className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                          <MapPin className="w-4 h-4" />
+                          {group.label}
+                          <span className="text-muted-foreground/70">({group.configs.length})</span>
+                        </h2>
+                      )}
+                      {filters.view === 'table' ? (
+                        <PACSConfigTable
+                          configs={group.configs}
+                          health={latestHealth}
+                          testingIds={testingIds}
+                          selectedIds={selectedIds}
+                          onSelectionChange={setSelectedIds}
+                          onTest={handleTest}
+                          onEdit={openEditDialog}
+                          onDelete={setPendingDelete}
+                        />
+                      ) : (
+                        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                          {group.configs.map((config, index) => (
+                            <PACSConfigCard
+                              key={config.id}
+                              config={config}
+                              index={index}
+                              health={latestHealth[config.id]}
+                              testResult={testResults[config.id]}
+                              isTesting={testingIds.includes(config.id)}
+                              capabilities={capabilities[config.id]}
+                              isProbing={probingIds.includes(config.id)}
+                              selected={selectedIds.includes(config.id)}
+                              selectionActive={selectedCount > 0}
+                              onSelectedChange={(selected) =>
+                                setSelectedIds(prev =>
+                                  selected ? [...prev, config.id] : prev.filter(id => id !== config.id)
+                                )
+                              }
+                              onTest={handleTest}
+                              onProbe={handleProbe}
+                              onEdit={openEditDialog}
+                              onDelete={setPendingDelete}
+                            />
+                          ))}
                         </div>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive hover:bg-destructive/10"
-                        onClick={() => handleDelete(config.id, config.display_name)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="space-y-3">
-                    <div className="flex items-center gap-2 text-sm">
-                      <Globe className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-muted-foreground truncate">{config.base_rs}</span>
-                    </div>
-                    {config.location && (
-                      <div className="flex items-center gap-2 text-sm">
-                        <MapPin className="w-4 h-4 text-muted-foreground" />
-                        <span className="text-muted-foreground">{config.location}</span>
-                      </div>
-                    )}
-                    {config.tags && config.tags.length > 0 && (
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Tag className="w-4 h-4 text-muted-foreground" />
-                        {config.tags.map((tag, i) => (
-                          <Badge key={i} variant="secondary" className="text-xs">
-                            {tag}
-                          </Badge>
-                        ))}
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+                      )}
+                    </section>
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
       </ScrollArea>
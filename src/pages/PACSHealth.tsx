@@ -0,0 +1,264 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Line, LineChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import PACSStatusDot from '@/components/PACSStatusDot';
+import { pacsAPI } from '@/lib/api';
+import { HEALTH_STATUS_LABELS, latestByPacs, pruneHealthHistory, uptimePercent } from '@/lib/healthStore';
+import { usePacsHealthHistory, useRecordHealthChecks } from '@/hooks/use-pacs-health';
+import { usePacsConfigurations } from '@/hooks/use-pacs-configurations';
+import { PACSConfiguration, PACSHealthSample } from '@/types';
+import { HeartPulse, Loader2, MapPin, RefreshCw, Server } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const INTERVAL_KEY = 'medchat_health_interval';
+const HISTORY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const NO_CONFIGURATIONS: PACSConfiguration[] = [];
+
+const INTERVAL_OPTIONS = [
+  { value: '0', label: 'Paused' },
+  { value: '30000', label: 'Every 30 seconds' },
+  { value: '60000', label: 'Every minute' },
+  { value: '300000', label: 'Every 5 minutes' },
+  { value: '900000', label: 'Every 15 minutes' },
+];
+
+const latencyChartConfig = {
+  latencyMs: {
+    label: 'Latency (ms)',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const STATUS_BADGE_CLASSES: Record<string, string> = {
+  up: 'bg-green-500/15 text-green-600 border-green-500/30',
+  degraded: 'bg-yellow-500/15 text-yellow-600 border-yellow-500/30',
+  down: 'bg-destructive/15 text-destructive border-destructive/30',
+  unknown: 'bg-muted text-muted-foreground border-border',
+};
+
+const loadInterval = (): string => {
+  const stored = localStorage.getItem(INTERVAL_KEY);
+  return INTERVAL_OPTIONS.some(o => o.value === stored) ? stored : '60000';
+};
+
+const averageLatency = (samples: PACSHealthSample[]): number | null => {
+  const latencies = samples.map(s => s.latencyMs).filter((l): l is number => typeof l === 'number');
+  if (latencies.length === 0) return null;
+  return Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length);
+};
+
+const PACSHealth = () => {
+  const { data: configurations = NO_CONFIGURATIONS, isLoading, error: loadError } = usePacsConfigurations();
+  const [isChecking, setIsChecking] = useState(false);
+  const [pollInterval, setPollInterval] = useState(loadInterval);
+  const checkingRef = useRef(false);
+  const samples = usePacsHealthHistory(HISTORY_WINDOW_MS);
+  const latest = latestByPacs(samples);
+  const recordHealthChecks = useRecordHealthChecks();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    pruneHealthHistory().catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    if (loadError) {
+      toast({
+        title: 'Error',
+        description: loadError.message,
+        variant: 'destructive',
+      });
+    }
+  }, [loadError, toast]);
+
+  // Checks run in parallel; a round that is still running is not overlapped.
+  const checkAll = useCallback(async () => {
+    if (checkingRef.current || configurations.length === 0) return;
+    checkingRef.current = true;
+    setIsChecking(true);
+
+    const checks = await Promise.all(
+      configurations.map(async config => ({ pacsId: config.id, result: await pacsAPI.testConnection(config) }))
+    );
+    // Tests the backend failed to run say nothing about the PACS.
+    await recordHealthChecks(checks.filter(check => !check.result.error));
+
+    checkingRef.current = false;
+    setIsChecking(false);
+  }, [configurations, recordHealthChecks]);
+
+  useEffect(() => {
+    const ms = Number(pollInterval);
+    if (!ms) return;
+
+    checkAll();
+    const id = window.setInterval(checkAll, ms);
+    return () => window.clearInterval(id);
+  }, [pollInterval, checkAll]);
+
+  const handleIntervalChange = (value: string) => {
+    localStorage.setItem(INTERVAL_KEY, value);
+    setPollInterval(value);
+  };
+
+  const sorted = [...configurations].sort(
+    (a, b) => (a.location ?? '').localeCompare(b.location ?? '') || a.display_name.localeCompare(b.display_name)
+  );
+  const upCount = configurations.filter(c => latest[c.id]?.status === 'up').length;
+
+  return (
+    <div className="h-screen flex flex-col">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <HeartPulse className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">PACS Health</h1>
+              <p className="text-sm text-muted-foreground">
+                {configurations.length > 0
+                  ? `${upCount} of ${configurations.length} servers up`
+                  : 'Availability and latency of your imaging servers'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={pollInterval} onValueChange={handleIntervalChange}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTERVAL_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={checkAll} disabled={isChecking || configurations.length === 0}>
+              {isChecking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Check Now
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <ScrollArea className="flex-1 p-4">
+        <div className="max-w-6xl mx-auto">
+          {isLoading ? (
+            <div className="flex flex-col items-center justify-center py-20">
+              <Loader2 className="w-8 h-8 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Loading configurations...</p>
+            </div>
+          ) : configurations.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 text-center">
+              <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+                <Server className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold text-foreground mb-2">No Configurations</h2>
+              <p className="text-muted-foreground max-w-md">
+                Add PACS configurations to start monitoring their health.
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {sorted.map(config => {
+                const history = samples
+                  .filter(s => s.pacsId === config.id)
+                  .sort((a, b) => a.testedAt - b.testedAt);
+                const current = latest[config.id];
+                const status = current?.status ?? 'unknown';
+                const uptime = uptimePercent(history);
+                const avgLatency = averageLatency(history);
+                const chartData = history.map(s => ({
+                  time: new Date(s.testedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                  latencyMs: s.status === 'down' ? null : s.latencyMs,
+                }));
+
+                return (
+                  <Card key={config.id} className="border-border bg-card">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <PACSStatusDot sample={current} />
+                          <div className="min-w-0">
+                            <CardTitle className="text-base truncate">{config.display_name}</CardTitle>
+                            <CardDescription className="text-xs flex items-center gap-1">
+                              {config.location && (
+                                <>
+                                  <MapPin className="w-3 h-3" />
+                                  {config.location} ·{' '}
+                                </>
+                              )}
+                              {current ? `Checked ${new Date(current.testedAt).toLocaleTimeString()}` : 'Not checked yet'}
+                            </CardDescription>
+                          </div>
+                        </div>
+                        <Badge variant="outline" className={cn('text-xs', STATUS_BADGE_CLASSES[status])}>
+                          {HEALTH_STATUS_LABELS[status]}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="rounded-md bg-muted/50 py-2">
+                          <p className="text-xs text-muted-foreground">Uptime (24h)</p>
+                          <p className="text-sm font-medium">{uptime === null ? '—' : `${uptime.toFixed(1)}%`}</p>
+                        </div>
+                        <div className="rounded-md bg-muted/50 py-2">
+                          <p className="text-xs text-muted-foreground">Avg latency</p>
+                          <p className="text-sm font-medium">{avgLatency === null ? '—' : `${avgLatency} ms`}</p>
+                        </div>
+                        <div className="rounded-md bg-muted/50 py-2">
+                          <p className="text-xs text-muted-foreground">Checks</p>
+                          <p className="text-sm font-medium">{history.length}</p>
+                        </div>
+                      </div>
+                      {chartData.length > 1 ? (
+                        <ChartContainer config={latencyChartConfig} className="aspect-auto h-32 w-full">
+                          <LineChart data={chartData} margin={{ left: 0, right: 8, top: 4 }}>
+                            <CartesianGrid vertical={false} />
+                            <XAxis dataKey="time" tickLine={false} axisLine={false} fontSize={10} minTickGap={24} />
+                            <YAxis tickLine={false} axisLine={false} fontSize={10} width={40} />
+                            <ChartTooltip content={<ChartTooltipContent />} />
+                            <Line
+                              dataKey="latencyMs"
+                              type="monotone"
+                              stroke="var(--color-latencyMs)"
+                              strokeWidth={2}
+                              dot={false}
+                              connectNulls={false}
+                            />
+                          </LineChart>
+                        </ChartContainer>
+                      ) : (
+                        <p className="text-xs text-muted-foreground text-center py-6">
+                          Latency history appears after a few checks.
+                        </p>
+                      )}
+                      {current && current.status !== 'up' && (
+                        <p className="text-xs text-muted-foreground">{current.message}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default PACSHealth;
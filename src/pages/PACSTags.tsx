@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PACSBatchDialog from '@/components/PACSBatchDialog';
+import TagBadge from '@/components/TagBadge';
+import { PACSBatchAction, PACSBatchResult } from '@/lib/pacsBatch';
+import { TAG_COLORS, similarTagGroups, tagUsage } from '@/lib/tags';
+import { useTagMeta } from '@/hooks/use-tag-meta';
+import { usePacsConfigurations } from '@/hooks/use-pacs-configurations';
+import { PACSConfiguration, PACSTagColor, PACSTagMeta } from '@/types';
+import { Check, GitMerge, Loader2, Pencil, Tags } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const NO_CONFIGURATIONS: PACSConfiguration[] = [];
+
+interface TagColorPickerProps {
+  meta?: PACSTagMeta;
+  onChange: (color?: PACSTagColor) => void;
+}
+
+const TagColorPicker = ({ meta, onChange }: TagColorPickerProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <button
+        type="button"
+        className={cn(
+          'h-5 w-5 rounded-full border border-border',
+          meta?.color ? TAG_COLORS[meta.color].swatch : 'bg-muted'
+        )}
+        aria-label="Choose colour"
+      />
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-2" align="start">
+      <div className="flex items-center gap-1.5">
+        {(Object.keys(TAG_COLORS) as PACSTagColor[]).map(color => (
+          <button
+            key={color}
+            type="button"
+            className={cn('flex h-6 w-6 items-center justify-center rounded-full', TAG_COLORS[color].swatch)}
+            onClick={() => onChange(color)}
+            title={TAG_COLORS[color].label}
+          >
+            {meta?.color === color && <Check className="h-3.5 w-3.5 text-white" />}
+          </button>
+        ))}
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange(undefined)}>
+          None
+        </Button>
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+// Saves when the field loses focus or Enter is pressed.
+const TagDescriptionInput = ({ value, onSave }: { value: string; onSave: (value: string) => void }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <Input
+      value={draft}
+      placeholder="Add a description"
+      className="h-8"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onSave(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+    />
+  );
+};
+
+const PACSTags = () => {
+  const { data: configurations = NO_CONFIGURATIONS, isLoading, error: loadError, refetch } = usePacsConfigurations();
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [renameFrom, setRenameFrom] = useState<string[] | null>(null);
+  const [renameConfigs, setRenameConfigs] = useState<PACSConfiguration[]>([]);
+  const { tagMeta, saveTagMeta, renameTagMeta } = useTagMeta();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (loadError) {
+      toast({
+        title: 'Error',
+        description: loadError.message,
+        variant: 'destructive',
+      });
+    }
+  }, [loadError, toast]);
+
+  const usage = tagUsage(configurations);
+  const counts = Object.fromEntries(usage.map(u => [u.tag, u.count]));
+  const similar = similarTagGroups(usage.map(u => u.tag));
+
+  // Sources are ordered by use so the most common spelling is the default.
+  const openRename = (tags: string[]) => {
+    const from = [...tags].sort((a, b) => (counts[b] ?? 0) - (counts[a] ?? 0));
+    setRenameConfigs(configurations.filter(c => (c.tags ?? []).some(t => from.includes(t))));
+    setRenameFrom(from);
+  };
+
+  const handleRenameFinished = (results: PACSBatchResult[], action: PACSBatchAction) => {
+    if (action.kind === 'rename_tags' && results.every(r => r.ok)) {
+      renameTagMeta(action.from, action.to);
+    }
+    setSelectedTags([]);
+    refetch();
+  };
+
+  const updateMeta = (tag: string, updates: PACSTagMeta) => {
+    saveTagMeta(tag, { ...tagMeta[tag], ...updates });
+  };
+
+  return (
+    <div className="h-screen flex flex-col">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <Tags className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">PACS Tags</h1>
+              <p className="text-sm text-muted-foreground">Keep server tags consistent across configurations</p>
+            </div>
+          </div>
+          <Button onClick={() => openRename(selectedTags)} disabled={selectedTags.length < 2}>
+            <GitMerge className="w-4 h-4 mr-2" />
+            Merge {selectedTags.length >= 2 ? selectedTags.length : ''} Tags
+          </Button>
+          <PACSBatchDialog
+            kind={renameFrom ? 'rename_tags' : null}
+            configs={renameConfigs}
+            renameFrom={renameFrom ?? undefined}
+            onOpenChange={(open) => !open && setRenameFrom(null)}
+            onFinished={handleRenameFinished}
+          />
+        </div>
+      </header>
+
+      {/* Content */}
+      <ScrollArea className="flex-1 p-4">
+        <div className="max-w-6xl mx-auto space-y-4">
+          {isLoading ? (
+            <div className="flex flex-col items-center justify-center py-20">
+              <Loader2 className="w-8 h-8 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Loading tags...</p>
+            </div>
+          ) : usage.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 text-center">
+              <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+                <Tags className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold text-foreground mb-2">No Tags</h2>
+              <p className="text-muted-foreground max-w-md">
+                Tags added to PACS configurations will show up here.
+              </p>
+            </div>
+          ) : (
+            <>
+              {similar.length > 0 && (
+                <Card className="border-yellow-500/30 bg-yellow-500/5">
+                  <CardContent className="space-y-2 p-4">
+                    <p className="text-sm font-medium text-foreground">These tags look like duplicates</p>
+                    {similar.map(group => (
+                      <div key={group.join('|')} className="flex flex-wrap items-center gap-2">
+                        {group.map(tag => (
+                          <TagBadge key={tag} tag={tag} meta={tagMeta[tag]} />
+                        ))}
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => openRename(group)}>
+                          Merge
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+              <div className="rounded-lg border border-border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead className="w-14">Colour</TableHead>
+                      <TableHead>Tag</TableHead>
+                      <TableHead className="w-1/2">Description</TableHead>
+                      <TableHead className="text-right">Used by</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.map(({ tag, count }) => (
+                      <TableRow key={tag} data-state={selectedTags.includes(tag) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedTags.includes(tag)}
+                            onCheckedChange={(checked) =>
+                              setSelectedTags(prev => (checked === true ? [...prev, tag] : prev.filter(t => t !== tag)))
+                            }
+                            aria-label={`Select ${tag}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TagColorPicker meta={tagMeta[tag]} onChange={(color) => updateMeta(tag, { color })} />
+                        </TableCell>
+                        <TableCell>
+                          <TagBadge tag={tag} meta={tagMeta[tag]} />
+                        </TableCell>
+                        <TableCell>
+                          <TagDescriptionInput
+                            value={tagMeta[tag]?.description ?? ''}
+                            onSave={(description) => updateMeta(tag, { description })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground whitespace-nowrap">
+                          {count} {count === 1 ? 'server' : 'servers'}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            onClick={() => openRename([tag])}
+                            title="Rename tag"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default PACSTags;
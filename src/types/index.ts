@@ -3,6 +3,9 @@ export interface User {
   username: string;
 }
 
+// Which chat histories are removed from this device on logout.
+export type ChatWipeScope = 'none' | 'user' | 'all';
+
 export interface AuthContextType {
   user: User | null;
   token: string | null;
@@ -10,7 +13,7 @@ export interface AuthContextType {
   isLoading: boolean;
   login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   signup: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  logout: () => void;
+  logout: (options?: { wipeChatHistory?: ChatWipeScope }) => void;
 }
 
 export interface ChatMessage {
@@ -18,19 +21,80 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // 'interrupted': the stream failed after part of the reply arrived.
+  status?: 'streaming' | 'cancelled' | 'interrupted';
+  // Evaluation/debug fields the agent returned alongside the reply.
+  evaluation?: ChatEvaluation;
+  // PACS servers a user message was restricted to; absent means all.
+  pacsScope?: ChatPacsScope[];
+}
+
+export interface ChatPacsScope {
+  id: string;
+  display_name: string;
+}
+
+export type ChatEvaluation = Record<string, unknown>;
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  // Set once the backend returns its own id for this thread.
+  serverConversationId?: string;
+  // Overrides the user's default query settings for this thread only.
+  querySettings?: ChatQuerySettings;
+}
+
+export interface ConversationsContextType {
+  conversations: Conversation[];
+  getConversation: (id: string) => Conversation | undefined;
+  createConversation: (title?: string) => Conversation;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  togglePinned: (id: string) => void;
+  setServerConversationId: (id: string, serverConversationId: string) => void;
+  setConversationQuerySettings: (id: string, settings: ChatQuerySettings | undefined) => void;
+  updateMessages: (id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => void;
+}
+
+export interface ChatQuerySettings {
+  max_studies_per_pacs: number;
+  max_total_studies: number;
+  return_evaluation: boolean;
+}
+
+export interface ChatHistoryTurn {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
 }
 
 export interface ChatRequest {
   prompt: string;
+  // Prior turns, oldest first. Omitted when conversation_id is sent.
+  history?: ChatHistoryTurn[];
+  conversation_id?: string;
+  // Restricts the query to these PACSConfiguration ids; omitted means all.
+  pacs_ids?: string[];
   max_studies_per_pacs?: number;
   max_total_studies?: number;
   return_evaluation?: boolean;
+  stream?: boolean;
 }
 
+export type PACSAuthScheme = 'none' | 'basic' | 'bearer' | 'api_key' | 'oauth2_client_credentials';
+
+export type PACSVendor = 'generic' | 'orthanc' | 'dcm4chee' | 'google_healthcare' | 'azure_dicom' | 'dicoogle';
+
 export interface PACSConfiguration {
   id: string;
   display_name: string;
   base_rs: string;
+  // Server type the configuration was set up for; older records have none.
+  vendor?: PACSVendor;
   location?: string;
   headers?: Record<string, string>;
   auth?: Record<string, string>;
@@ -38,6 +102,70 @@ export interface PACSConfiguration {
   created_at?: string;
 }
 
+// Body of a create request; the backend assigns id and created_at.
+export type PACSConfigurationInput = Omit<PACSConfiguration, 'id' | 'created_at'>;
+
+// What a connection probe needs; id lets a backend proxy use saved secrets.
+export interface PACSConnectionTarget {
+  id?: string;
+  base_rs: string;
+  headers?: Record<string, string>;
+  auth?: Record<string, string>;
+}
+
+export interface PACSConnectionTestResult {
+  reachable: boolean;
+  status?: number;
+  latencyMs?: number;
+  corsBlocked: boolean;
+  validDicomJson: boolean;
+  via: 'proxy' | 'direct';
+  message: string;
+  testedAt: number;
+  // Set when the backend failed to run the test; the PACS was not probed.
+  error?: ApiError;
+}
+
+export type PACSHealthStatus = 'up' | 'degraded' | 'down';
+
+export interface PACSHealthSample {
+  // The signed-in user who ran the check; history is kept per user.
+  userId: string;
+  pacsId: string;
+  testedAt: number;
+  status: PACSHealthStatus;
+  httpStatus?: number;
+  latencyMs?: number;
+  message: string;
+}
+
+export type PACSTagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'violet' | 'pink';
+
+export interface PACSTagMeta {
+  color?: PACSTagColor;
+  description?: string;
+}
+
+export type DicomwebCapability =
+  | 'qido_studies'
+  | 'qido_series'
+  | 'qido_instances'
+  | 'wado_metadata'
+  | 'wado_rendered'
+  | 'wado_thumbnail'
+  | 'stow';
+
+// 'unknown' means the probe could not tell, e.g. auth failed or the server
+// holds no instance to try WADO against.
+export type CapabilitySupport = 'supported' | 'unsupported' | 'unknown';
+
+export interface PACSCapabilities {
+  pacsId: string;
+  probedAt: number;
+  via: 'proxy' | 'direct';
+  results: Record<DicomwebCapability, CapabilitySupport>;
+}
+
 export interface ApiResponse<T = unknown> {
   status: 'success' | 'error';
   message?: string;
@@ -47,3 +175,65 @@ export interface ApiResponse<T = unknown> {
     details?: unknown;
   };
 }
+
+// Why an API call failed. `kind` tells apart failures the UI reacts to
+// differently; `message` is always ready to show.
+export type ApiErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'unauthorized'
+  | 'validation'
+  | 'non_json'
+  | 'schema_mismatch'
+  | 'server';
+
+interface ApiErrorBase {
+  message: string;
+  // Absent when no response arrived.
+  status?: number;
+  code?: string;
+  details?: unknown;
+  // From the X-Request-ID response header, for matching backend logs.
+  requestId?: string;
+}
+
+export interface TimeoutApiError extends ApiErrorBase {
+  kind: 'timeout';
+}
+
+export interface NetworkApiError extends ApiErrorBase {
+  kind: 'network';
+}
+
+export interface UnauthorizedApiError extends ApiErrorBase {
+  kind: 'unauthorized';
+}
+
+export interface ValidationApiError extends ApiErrorBase {
+  kind: 'validation';
+  // Messages by field path, e.g. "base_rs" or "auth.token".
+  fieldErrors: Record<string, string>;
+}
+
+// A proxy or tunnel answered with HTML or plain text instead of JSON.
+export interface NonJsonApiError extends ApiErrorBase {
+  kind: 'non_json';
+}
+
+export interface SchemaMismatchApiError extends ApiErrorBase {
+  kind: 'schema_mismatch';
+  path: string;
+}
+
+export interface ServerApiError extends ApiErrorBase {
+  kind: 'server';
+}
+
+export type ApiError =
+  | TimeoutApiError
+  | NetworkApiError
+  | UnauthorizedApiError
+  | ValidationApiError
+  | NonJsonApiError
+  | SchemaMismatchApiError
+  | ServerApiError;